@@ -1,43 +1,201 @@
 
 import React, { useRef, useEffect, useState, useCallback } from 'react';
-import { FluidSolver } from './utils/fluidSolver';
-import { DEFAULT_CONFIG, CANVAS_BG_COLOR, SMOKE_COLOR } from './constants';
-import { ToolMode, GeminiAnalysisResult } from './types';
-import { IconCloud, IconWind, IconEraser, IconSparkles, IconTrash, IconDownload, IconCopy, IconCheck } from './components/Icons';
-import { analyzeSmokeArt } from './services/geminiService';
+import { FluidWorkerClient, detectBackend } from './utils/fluidWorkerClient';
+import { DEFAULT_CONFIG, SMOKE_COLOR, GPU_RESOLUTION, GPU_DYE_RESOLUTION, RESOLUTION_OPTIONS, DYE_RESOLUTION_OPTIONS, AUTOSAVE_INTERVAL_MS, DEFAULT_RENDER_SETTINGS, DEFAULT_BRUSH_TUNING, BRUSH_LIMITS, TIMESTEP } from './constants';
+import { ToolMode, GeminiAnalysisResult, AnalysisEntry, RGBColor, DyeFrame, SolverBackendKind, SimulationConfig, HistoryStatus, GridSize, ExportOptions, ExportFormat, Project, RenderSettings, Emitter, EmitterKind, BrushPreset, BrushShape } from './types';
+import { IconCloud, IconWind, IconEraser, IconSparkles, IconTrash, IconDownload, IconCopy, IconCheck, IconWall, IconWallOff, IconSliders, IconUndo, IconRedo, IconRecord, IconReplay, IconStop, IconFilm, IconFolderOpen, IconSave, IconEmitter, IconBrush, IconGallery, IconWand } from './components/Icons';
+import { SettingsPanel } from './components/SettingsPanel';
+import { ExportDialog } from './components/ExportDialog';
+import { EmitterPanel } from './components/EmitterPanel';
+import { BrushPanel } from './components/BrushPanel';
+import { AnalysisGallery } from './components/AnalysisGallery';
+import { PromptPanel, PlanPhase } from './components/PromptPanel';
+import { EmitterMarkers, emitterRadiusPx } from './components/EmitterMarkers';
+import { AnalysisOverlay } from './components/AnalysisOverlay';
+import { analyzeSmokeArt, generateSmokePlan, getAnalysisProviderInfo, loadAnalysisSettings, saveAnalysisSettings } from './services/analysis';
+import { AnalysisError, ANALYSIS_ERROR_TITLES } from './services/analysisErrors';
+import { hexToRgb, rgbToHex } from './utils/color';
+import { referenceSize } from './utils/grid';
+import { serializeRecording, parseRecording } from './utils/recording';
+import { pointerDynamics, toolTuning, isBrushTool } from './utils/brush';
+import { FrameRenderer } from './utils/frameRenderer';
+import { recordWebM, renderGif } from './utils/videoExport';
+import { renderHighRes } from './utils/highResRender';
+import { encodeProject, decodeProject, PROJECT_EXTENSION } from './utils/project';
+import { saveAutosave, loadAutosave, clearAutosave } from './utils/projectStore';
+import { addAnalysis, listAnalyses, deleteAnalysis, MAX_ANALYSES } from './utils/analysisStore';
+import { planTimeline, PlanPlayer } from './utils/smokePlan';
+import { createEmitter } from './utils/emitters';
+import { WIND_TUNNEL_BOUNDARIES, windTunnelStreaks } from './utils/boundaries';
+import { loadUserPresets, saveUserPresets, parsePresets, serializePresets } from './utils/brushPresets';
+
+// Projects may come from the other backend; snap their grid sizes to ones this backend offers
+const fitToBackend = (config: SimulationConfig, backend: SolverBackendKind): SimulationConfig => {
+  const nearest = (value: number, options: number[]) =>
+    options.reduce((best, option) => (Math.abs(option - value) < Math.abs(best - value) ? option : best));
+  return {
+    ...config,
+    resolution: nearest(config.resolution, RESOLUTION_OPTIONS[backend]),
+    dyeRes: nearest(config.dyeRes, DYE_RESOLUTION_OPTIONS[backend])
+  };
+};
 
 const App: React.FC = () => {
   // DOM Refs
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  const recordingInputRef = useRef<HTMLInputElement>(null);
+  const projectInputRef = useRef<HTMLInputElement>(null);
 
   // State
-  const [solver, setSolver] = useState<FluidSolver | null>(null);
+  const [solver, setSolver] = useState<FluidWorkerClient | null>(null);
+  const [backendInfo, setBackendInfo] = useState<{ kind: SolverBackendKind; size: GridSize } | null>(null);
+  // The GPU backend is picked when available and runs a much finer grid
+  const [initialBackend] = useState<SolverBackendKind>(detectBackend);
+  const [config, setConfig] = useState<SimulationConfig>(() =>
+    initialBackend === 'webgl2' ? { ...DEFAULT_CONFIG, resolution: GPU_RESOLUTION, dyeRes: GPU_DYE_RESOLUTION } : DEFAULT_CONFIG
+  );
+  const [showSettings, setShowSettings] = useState(false);
+  const [renderSettings, setRenderSettings] = useState<RenderSettings>(DEFAULT_RENDER_SETTINGS);
   const [mode, setMode] = useState<ToolMode>(ToolMode.SMOKE);
   const [brushSize, setBrushSize] = useState<number>(4);
+  const [smokeColor, setSmokeColor] = useState<string>(rgbToHex(SMOKE_COLOR));
+  const [brushTuning, setBrushTuning] = useState(DEFAULT_BRUSH_TUNING);
+  const [brushShape, setBrushShape] = useState<BrushShape>('disc');
+  const [brushDensity, setBrushDensity] = useState(1);
+  const [brushJitter, setBrushJitter] = useState(0);
+  const [userPresets, setUserPresets] = useState<BrushPreset[]>(loadUserPresets);
+  const [showBrushes, setShowBrushes] = useState(false);
   const [isPaused, setIsPaused] = useState(false);
   const [showAnalysis, setShowAnalysis] = useState(false);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [analysisResult, setAnalysisResult] = useState<GeminiAnalysisResult | null>(null);
+  const [analysisError, setAnalysisError] = useState<AnalysisError | null>(null);
+  const [analysisStatus, setAnalysisStatus] = useState('');
+  const [showAnalysisMarks, setShowAnalysisMarks] = useState(true);
+  const [analysisSettings, setAnalysisSettings] = useState(loadAnalysisSettings);
+  const analysisAbort = useRef<AbortController | null>(null);
+  const [analysisHistory, setAnalysisHistory] = useState<AnalysisEntry[]>([]);
+  const [showGallery, setShowGallery] = useState(false);
+  const [showPrompt, setShowPrompt] = useState(false);
+  const [plan, setPlan] = useState<{ phase: PlanPhase; title: string | null; progress: number }>({ phase: 'idle', title: null, progress: 0 });
+  const [planError, setPlanError] = useState<AnalysisError | null>(null);
+  const planAbort = useRef<AbortController | null>(null);
+  const planPlayer = useRef<PlanPlayer | null>(null);
+  // Called by the render loop before every step; reassigned each render so it sees current state
+  const planTick = useRef<() => void>(() => {});
   const [toastMessage, setToastMessage] = useState<string | null>(null);
+  const [history, setHistory] = useState<HistoryStatus>({ canUndo: false, canRedo: false, bytes: 0 });
+  const [isRecording, setIsRecording] = useState(false);
+  const [isReplaying, setIsReplaying] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [exportJob, setExportJob] = useState<{ format: ExportFormat; progress: number } | null>(null);
+  const [isDragOver, setIsDragOver] = useState(false);
+  const [canvasSize, setCanvasSize] = useState({ width: 0, height: 0 });
+  const [emitters, setEmitters] = useState<Emitter[]>([]);
+  const [selectedEmitterId, setSelectedEmitterId] = useState<number | null>(null);
+  const [emitterKind, setEmitterKind] = useState<EmitterKind>('smoke');
+
+  // Pointer State: one stroke per active pointer (mouse, pen or finger), keyed by pointerId.
+  // Color is latched when a stroke begins so each stroke keeps a single dye.
+  const strokes = useRef(new Map<number, { lastPos: { x: number; y: number }; time: number; color: RGBColor }>());
+  // Emitter being dragged with the emitter tool, and the pointer dragging it
+  const draggedEmitter = useRef<{ pointerId: number; id: number } | null>(null);
+
+  // Export in progress: cancels it, and while a GIF renders the export drives the simulation instead of the render loop
+  const exportAbort = useRef<AbortController | null>(null);
+  const offlineRender = useRef(false);
+
+  // Latest settings for the autosave timer, and whether anything changed since the last autosave
+  const tools = { mode, brushSize, smokeColor, tuning: brushTuning, shape: brushShape, density: brushDensity, jitter: brushJitter };
+  const projectSettings = useRef({ config, tools, render: renderSettings, emitters });
+  projectSettings.current = { config, tools, render: renderSettings, emitters };
+
+  // Shared by the render loop and the style settings
+  const renderer = useRef<FrameRenderer | null>(null);
+  const unsaved = useRef(false);
 
-  // Mouse/Touch State
-  const isDragging = useRef(false);
-  const lastPos = useRef<{ x: number; y: number } | null>(null);
+  // Shape of the display; the simulation grids follow it so cells stay square
+  const getAspect = () => {
+    const container = containerRef.current;
+    if (!container || container.clientHeight === 0) return window.innerWidth / window.innerHeight;
+    return container.clientWidth / container.clientHeight;
+  };
 
-  // Initialize Solver
+  // Initialize Solver (runs in a Web Worker)
   useEffect(() => {
-    const s = new FluidSolver(
-      DEFAULT_CONFIG.resolution,
-      DEFAULT_CONFIG.diffusion,
-      DEFAULT_CONFIG.viscosity,
-      0.1 // dt
-    );
+    const s = new FluidWorkerClient(config, TIMESTEP, initialBackend, getAspect(), (kind, size, dyeSize) => {
+      setBackendInfo({ kind, size });
+      // Keep the panel in sync when the worker had to fall back to other grid sizes
+      const resolution = referenceSize(size);
+      const dyeRes = referenceSize(dyeSize);
+      setConfig(c => (c.resolution === resolution && c.dyeRes === dyeRes ? c : { ...c, resolution, dyeRes }));
+    });
+    s.onHistory = status => {
+      setHistory(status);
+      unsaved.current = true;
+    };
+    s.onReplayEnd = () => {
+      setIsReplaying(false);
+      // Back to the live display's shape
+      s.resize(getAspect());
+    };
     setSolver(s);
 
-    // Cleanup? Nothing specific for pure JS class
+    // Pick up where the last session left off
+    loadAutosave()
+      .then(bytes => (bytes ? decodeProject(bytes) : null))
+      .then(project => project && applyProject(s, project))
+      .catch(e => {
+        console.error('Could not restore the last session', e);
+        clearAutosave().catch(() => {});
+      });
+    listAnalyses()
+      .then(setAnalysisHistory)
+      .catch(e => console.error('Could not load the analysis gallery', e));
+
+    return () => s.dispose();
   }, []);
 
+  // Autosave to IndexedDB while something changed, and once more when the page is hidden or closed
+  useEffect(() => {
+    if (!solver) return;
+    const autosave = async () => {
+      if (!unsaved.current || offlineRender.current) return;
+      unsaved.current = false;
+      try {
+        const snapshot = await solver.save();
+        if (snapshot) await saveAutosave(encodeProject({ ...projectSettings.current, snapshot }));
+      } catch (e) {
+        console.error('Autosave failed', e);
+      }
+    };
+    const handleVisibility = () => {
+      if (document.visibilityState === 'hidden') autosave();
+    };
+    const timer = setInterval(autosave, AUTOSAVE_INTERVAL_MS);
+    document.addEventListener('visibilitychange', handleVisibility);
+    window.addEventListener('pagehide', autosave);
+    return () => {
+      clearInterval(timer);
+      document.removeEventListener('visibilitychange', handleVisibility);
+      window.removeEventListener('pagehide', autosave);
+    };
+  }, [solver]);
+
+  useEffect(() => {
+    unsaved.current = true;
+  }, [config, mode, brushSize, smokeColor, brushTuning, brushShape, brushDensity, brushJitter, renderSettings, emitters]);
+
+  // Push settings edits to the running solver
+  useEffect(() => {
+    solver?.configure(config);
+  }, [solver, config]);
+
+  useEffect(() => {
+    solver?.setEmitters(emitters);
+  }, [solver, emitters]);
+
   // Render Loop
   useEffect(() => {
     if (!solver || !canvasRef.current) return;
@@ -48,52 +206,25 @@ const App: React.FC = () => {
 
     let animationId: number;
 
-    // Upscaling factor for rendering crispness on high DPI
-    const renderScale = 4; // Render each grid cell as 4x4 pixels (or more depending on screen)
-    
-    // We render the 128x128 simulation to the full screen canvas
-    const N = solver.size;
-    const paddedSize = N + 2;
-    const imageData = ctx.createImageData(paddedSize, paddedSize);
-    const data = imageData.data;
-
-    // Create an offscreen canvas for smoothing
-    const offscreen = document.createElement('canvas');
-    offscreen.width = paddedSize;
-    offscreen.height = paddedSize;
-    const offCtx = offscreen.getContext('2d');
+    if (!renderer.current) renderer.current = new FrameRenderer(renderSettings);
+    const frameRenderer = renderer.current;
+    let drawnFrame: DyeFrame | null = null;
 
     const render = () => {
-      if (!isPaused) {
-        solver.step(DEFAULT_CONFIG.iterations, DEFAULT_CONFIG.fadeRate);
+      // Flushes queued brush splats and, unless paused, advances the worker one step. The plan only moves on
+      // when a step was actually sent, so its events go out with the next request at one tick per step.
+      if (!offlineRender.current) {
+        if (solver.requestFrame(!isPaused)) planTick.current();
       }
 
-      // Map density to pixel data
-      // Optimization: Loop directly through density array
-      for (let i = 0; i < solver.density.length; i++) {
-        const d = solver.density[i];
-        const pixelIndex = i * 4;
-        
-        // RGBA
-        // Black background, White smoke.
-        data[pixelIndex] = SMOKE_COLOR.r;     // R
-        data[pixelIndex + 1] = SMOKE_COLOR.g; // G
-        data[pixelIndex + 2] = SMOKE_COLOR.b; // B
-        data[pixelIndex + 3] = d;             // Alpha based on density (clamped by Uint8ClampedArray)
+      const frame = solver.latest;
+      if (frame && frame !== drawnFrame) {
+        frameRenderer.composite(frame);
+        drawnFrame = frame;
       }
 
-      if (offCtx) {
-        offCtx.putImageData(imageData, 0, 0);
-        
-        // Draw to main canvas with smoothing
-        ctx.fillStyle = CANVAS_BG_COLOR;
-        ctx.fillRect(0, 0, canvas.width, canvas.height);
-        
-        ctx.imageSmoothingEnabled = true;
-        ctx.imageSmoothingQuality = 'high';
-        
-        // Scale up to fit
-        ctx.drawImage(offscreen, 0, 0, canvas.width, canvas.height);
+      if (drawnFrame) {
+        frameRenderer.draw(ctx, canvas.width, canvas.height);
       }
 
       animationId = requestAnimationFrame(render);
@@ -104,98 +235,144 @@ const App: React.FC = () => {
     return () => cancelAnimationFrame(animationId);
   }, [solver, isPaused]);
 
+  // Switch render styles (frames keep coming while paused, so the next one shows the change).
+  // Frames carry the flow fields only while a style needs them.
+  useEffect(() => {
+    if (!renderer.current) renderer.current = new FrameRenderer(renderSettings);
+    renderer.current.setSettings(renderSettings);
+    if (solver) solver.flow = renderer.current.needsFlow;
+  }, [solver, renderSettings]);
+
   // Handle Resizing
   useEffect(() => {
+    let resizeTimer: ReturnType<typeof setTimeout> | undefined;
     const handleResize = () => {
       if (containerRef.current && canvasRef.current) {
         const { clientWidth, clientHeight } = containerRef.current;
         canvasRef.current.width = clientWidth;
         canvasRef.current.height = clientHeight;
+        setCanvasSize({ width: clientWidth, height: clientHeight });
       }
+      // Reshaping the grids rebuilds the solver, so wait until the window settles
+      clearTimeout(resizeTimer);
+      resizeTimer = setTimeout(() => solver?.resize(getAspect()), 200);
     };
     window.addEventListener('resize', handleResize);
     handleResize();
-    return () => window.removeEventListener('resize', handleResize);
-  }, []);
+    return () => {
+      clearTimeout(resizeTimer);
+      window.removeEventListener('resize', handleResize);
+    };
+  }, [solver]);
 
   // Interaction Handlers
-  const getPointerPos = (e: React.MouseEvent | React.TouchEvent) => {
+  // Pointer position as a fraction of the canvas (0 to 1 on both axes)
+  const getPointerFraction = (e: React.PointerEvent) => {
     if (!canvasRef.current) return { x: 0, y: 0 };
     const rect = canvasRef.current.getBoundingClientRect();
-    let clientX, clientY;
-    
-    if ('touches' in e) {
-      clientX = e.touches[0].clientX;
-      clientY = e.touches[0].clientY;
-    } else {
-      clientX = (e as React.MouseEvent).clientX;
-      clientY = (e as React.MouseEvent).clientY;
+    return { x: (e.clientX - rect.left) / rect.width, y: (e.clientY - rect.top) / rect.height };
+  };
+
+  const getPointerPos = (e: React.PointerEvent) => {
+    // Map screen coordinates to simulation grid coordinates (0 to width+1, 0 to height+1).
+    // The grid has the canvas's aspect ratio, so both axes share one scale.
+    const { width, height } = solver ? solver.size : { width: DEFAULT_CONFIG.resolution, height: DEFAULT_CONFIG.resolution };
+    const fraction = getPointerFraction(e);
+    return { x: fraction.x * (width + 2), y: fraction.y * (height + 2) };
+  };
+
+  // Emitter tool: pick the marker under the pointer, or place a new emitter there
+  const startEmitterDrag = (e: React.PointerEvent) => {
+    const { x, y } = getPointerFraction(e);
+    const { width, height } = canvasSize;
+    let picked: Emitter | null = null;
+    let closest = Infinity;
+    for (const emitter of emitters) {
+      const distance = Math.hypot((emitter.x - x) * width, (emitter.y - y) * height);
+      if (distance <= Math.max(10, emitterRadiusPx(emitter, width, height) + 4) && distance < closest) {
+        picked = emitter;
+        closest = distance;
+      }
+    }
+    if (!picked) {
+      picked = createEmitter(Math.max(0, ...emitters.map(emitter => emitter.id)) + 1, emitterKind, x, y, smokeColor);
+      setEmitters([...emitters, picked]);
     }
+    setSelectedEmitterId(picked.id);
+    draggedEmitter.current = { pointerId: e.pointerId, id: picked.id };
+  };
 
-    // Map screen coordinates to simulation grid coordinates (0 to N+1)
-    const x = ((clientX - rect.left) / rect.width) * (DEFAULT_CONFIG.resolution + 2);
-    const y = ((clientY - rect.top) / rect.height) * (DEFAULT_CONFIG.resolution + 2);
-    
-    return { x, y };
+  const updateEmitter = (changed: Emitter) => {
+    setEmitters(list => list.map(emitter => (emitter.id === changed.id ? changed : emitter)));
   };
 
-  const handleStart = (e: React.MouseEvent | React.TouchEvent) => {
-    isDragging.current = true;
-    lastPos.current = getPointerPos(e);
+  const deleteEmitter = (id: number) => {
+    setEmitters(list => list.filter(emitter => emitter.id !== id));
+    setSelectedEmitterId(selected => (selected === id ? null : selected));
   };
 
-  const handleEnd = () => {
-    isDragging.current = false;
-    lastPos.current = null;
+  const handleStart = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    // The canvas belongs to the recording while it replays, and to the export while a GIF renders
+    if (isReplaying || offlineRender.current) return;
+    // Only the main mouse button paints
+    if (e.pointerType === 'mouse' && e.button !== 0) return;
+    // Keep receiving this pointer's moves when it leaves the canvas mid-stroke
+    e.currentTarget.setPointerCapture(e.pointerId);
+    if (mode === ToolMode.EMITTER) {
+      // One finger at a time moves emitters
+      if (!draggedEmitter.current) startEmitterDrag(e);
+      return;
+    }
+    strokes.current.set(e.pointerId, { lastPos: getPointerPos(e), time: e.timeStamp, color: hexToRgb(smokeColor) });
+  };
+
+  const handleEnd = (e: React.PointerEvent) => {
+    if (draggedEmitter.current?.pointerId === e.pointerId) draggedEmitter.current = null;
+    // Every finished stroke becomes an undo step
+    if (strokes.current.delete(e.pointerId)) solver?.commitSnapshot();
   };
 
-  const handleMove = (e: React.MouseEvent | React.TouchEvent) => {
-    if (!isDragging.current || !solver || !lastPos.current) return;
+  const handleMove = (e: React.PointerEvent) => {
+    const dragged = draggedEmitter.current;
+    if (dragged?.pointerId === e.pointerId) {
+      const { x, y } = getPointerFraction(e);
+      const clamp = (value: number) => Math.min(Math.max(value, 0), 1);
+      setEmitters(list => list.map(emitter => (emitter.id === dragged.id ? { ...emitter, x: clamp(x), y: clamp(y) } : emitter)));
+      return;
+    }
+    const stroke = strokes.current.get(e.pointerId);
+    if (!stroke || !solver) return;
     
     const currentPos = getPointerPos(e);
-    
-    // Clamp coordinates to inner grid (1 to N) to prevent edge loss
-    const N = solver.size;
-    const mx = Math.max(1, Math.min(Math.floor(currentPos.x), N));
-    const my = Math.max(1, Math.min(Math.floor(currentPos.y), N));
-    
-    const dx = currentPos.x - lastPos.current.x;
-    const dy = currentPos.y - lastPos.current.y;
-    
-    // Force multiplier
-    const forceMult = 5.0; 
-    // Clamp force to prevent explosion
-    const clampedDx = Math.max(-50, Math.min(50, dx * forceMult));
-    const clampedDy = Math.max(-50, Math.min(50, dy * forceMult));
-
-    // Apply brush logic over a radius
-    const radius = brushSize;
-    const r2 = radius * radius;
-
-    for (let y = -radius; y <= radius; y++) {
-      for (let x = -radius; x <= radius; x++) {
-        if (x * x + y * y <= r2) {
-          const targetX = mx + x;
-          const targetY = my + y;
-
-          if (targetX > 0 && targetX <= N && targetY > 0 && targetY <= N) {
-            // Apply Velocity to all tools to create movement
-            solver.addVelocity(targetX, targetY, clampedDx, clampedDy);
-
-            if (mode === ToolMode.SMOKE) {
-               // Add density
-               // Uncapped density allows for "thick" smoke that survives diffusion
-               solver.addDensity(targetX, targetY, 150);
-            } else if (mode === ToolMode.ERASER) {
-               // Remove density
-               solver.density[solver.IX(targetX, targetY)] = 0;
-            }
-          }
-        }
-      }
-    }
+    const dx = currentPos.x - stroke.lastPos.x;
+    const dy = currentPos.y - stroke.lastPos.y;
+    // Cells per 60 Hz frame, whatever rate this device reports at
+    const elapsed = Math.max(e.timeStamp - stroke.time, 1);
+    const dynamics = pointerDynamics({
+      pointerType: e.pointerType,
+      pressure: e.pressure,
+      tiltX: e.tiltX,
+      tiltY: e.tiltY,
+      speed: (Math.hypot(dx, dy) / elapsed) * (1000 / 60)
+    });
+
+    // Brush stamps are queued and sent to the worker in one batch per frame (and recorded if recording)
+    solver.queueBrush({
+      x: currentPos.x,
+      y: currentPos.y,
+      dx,
+      dy,
+      mode,
+      brushSize: brushSize * dynamics.size,
+      density: dynamics.density * brushDensity,
+      ...toolTuning(brushTuning, mode),
+      shape: brushShape,
+      jitter: brushJitter,
+      color: stroke.color
+    });
 
-    lastPos.current = currentPos;
+    stroke.lastPos = currentPos;
+    stroke.time = e.timeStamp;
   };
 
   // Actions
@@ -205,17 +382,292 @@ const App: React.FC = () => {
   };
 
   const handleReset = () => {
-    if (!solver) return;
-    solver.density.fill(0);
-    solver.Vx.fill(0);
-    solver.Vy.fill(0);
-    solver.Vx0.fill(0);
-    solver.Vy0.fill(0);
-    setAnalysisResult(null);
-    setShowAnalysis(false);
+    if (!solver || isReplaying) return;
+    finishRecording();
+    stopPlan();
+    solver.reset();
+    closeAnalysis();
     showToast("Canvas Cleared");
   };
 
+  // Jumping through history can't be replayed, so it ends a recording
+  const handleUndo = () => {
+    if (!solver || isReplaying) return;
+    finishRecording();
+    solver.undo();
+  };
+
+  const handleRedo = () => {
+    if (!solver || isReplaying) return;
+    finishRecording();
+    solver.redo();
+  };
+
+  const downloadFile = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  // Stop recording (if recording) and save what was captured
+  const finishRecording = () => {
+    const recording = solver?.stopRecording();
+    if (!recording) return;
+    setIsRecording(false);
+    downloadFile(new Blob([serializeRecording(recording)], { type: 'application/json' }), `aerograph-recording-${Date.now()}.json`);
+    showToast(`Recording Saved (${recording.events.length} events)`);
+  };
+
+  const handleToggleRecording = () => {
+    if (!solver || isReplaying || plan.phase !== 'idle') return;
+    if (solver.isRecording) {
+      finishRecording();
+    } else {
+      solver.startRecording(config, emitters);
+      setIsRecording(true);
+      closeAnalysis();
+      showToast("Recording Started");
+    }
+  };
+
+  const loadRecordingFile = async (file: File) => {
+    if (!solver) return;
+    try {
+      const recording = parseRecording(await file.text());
+      finishRecording();
+      stopPlan();
+      // The replay runs with the recorded settings; keep the panel showing them
+      setConfig(recording.config);
+      setEmitters(recording.emitters);
+      setSelectedEmitterId(null);
+      solver.replay(recording);
+      setIsReplaying(true);
+      showToast("Replaying Recording");
+    } catch (err) {
+      console.error(err);
+      showToast(err instanceof Error ? err.message : "Failed to Load Recording");
+    }
+  };
+
+  const handleLoadRecording = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) loadRecordingFile(file);
+  };
+
+  // Replace the canvas, settings and tools with a project's
+  const applyProject = (s: FluidWorkerClient, project: Project) => {
+    const projectConfig = fitToBackend(project.config, s.backend);
+    finishRecording();
+    stopPlan();
+    setConfig(projectConfig);
+    setMode(project.tools.mode);
+    setBrushSize(project.tools.brushSize);
+    setSmokeColor(project.tools.smokeColor);
+    setBrushTuning(project.tools.tuning);
+    setBrushShape(project.tools.shape);
+    setBrushDensity(project.tools.density);
+    setBrushJitter(project.tools.jitter);
+    setRenderSettings(project.render);
+    setEmitters(project.emitters);
+    setSelectedEmitterId(null);
+    closeAnalysis();
+    s.load(projectConfig, project.snapshot);
+  };
+
+  // Blow air through from the left with smoke streaks at the inlet; painted walls stay, so they show their wake.
+  // The streaks replace any other emitters.
+  const handleWindTunnel = () => {
+    if (isReplaying) return;
+    setConfig(c => ({ ...c, boundaries: WIND_TUNNEL_BOUNDARIES }));
+    setEmitters(windTunnelStreaks(1));
+    setSelectedEmitterId(null);
+    showToast("Wind Tunnel");
+  };
+
+  // Switch to a preset's tool and take on all of its settings
+  const applyBrushPreset = (preset: BrushPreset) => {
+    setMode(preset.mode);
+    setBrushSize(preset.size);
+    setSmokeColor(preset.color);
+    setBrushShape(preset.shape);
+    setBrushDensity(preset.density);
+    setBrushJitter(preset.jitter);
+    const tool = preset.mode;
+    if (isBrushTool(tool)) {
+      setBrushTuning(tuning => ({ ...tuning, [tool]: { ...tuning[tool], force: preset.force } }));
+    }
+    showToast(preset.name);
+  };
+
+  const saveBrushPreset = (name: string) => {
+    const preset: BrushPreset = {
+      id: `user-${Date.now()}`,
+      name,
+      mode,
+      shape: brushShape,
+      size: brushSize,
+      density: brushDensity,
+      force: toolTuning(brushTuning, mode).force,
+      jitter: brushJitter,
+      color: smokeColor
+    };
+    setUserPresets(list => [...list, preset]);
+    showToast("Brush Saved");
+  };
+
+  const importBrushPresets = async (file: File) => {
+    try {
+      const imported = parsePresets(JSON.parse(await file.text()));
+      if (imported.length === 0) throw new Error('No brush presets in file');
+      // Fresh ids, so importing the same file twice doesn't collide
+      const stamp = Date.now();
+      setUserPresets(list => [...list, ...imported.map((preset, i) => ({ ...preset, id: `user-${stamp}-${i}` }))]);
+      showToast(`Imported ${imported.length} Brush${imported.length === 1 ? '' : 'es'}`);
+    } catch (err) {
+      console.error(err);
+      showToast(err instanceof Error && !(err instanceof SyntaxError) ? err.message : "Failed to Import Brushes");
+    }
+  };
+
+  const exportBrushPresets = () => {
+    downloadFile(new Blob([serializePresets(userPresets)], { type: 'application/json' }), `aerograph-brushes-${Date.now()}.json`);
+  };
+
+  const handleSaveProject = async () => {
+    if (!solver) return;
+    const snapshot = await solver.save();
+    if (!snapshot) {
+      showToast("Failed to Save Project");
+      return;
+    }
+    const bytes = encodeProject({ ...projectSettings.current, snapshot });
+    downloadFile(new Blob([bytes], { type: 'application/octet-stream' }), `aerograph-${Date.now()}${PROJECT_EXTENSION}`);
+    showToast("Project Saved");
+  };
+
+  const openProjectFile = async (file: File) => {
+    if (!solver || isReplaying || exportJob) return;
+    try {
+      applyProject(solver, await decodeProject(new Uint8Array(await file.arrayBuffer())));
+      showToast("Project Opened");
+    } catch (err) {
+      console.error(err);
+      showToast(err instanceof Error ? err.message : "Failed to Open Project");
+    }
+  };
+
+  const handleOpenProject = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) openProjectFile(file);
+  };
+
+  // Projects and stroke recordings can be dropped straight onto the canvas
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragOver(false);
+    const file = e.dataTransfer.files[0];
+    if (!file) return;
+    const name = file.name.toLowerCase();
+    if (name.endsWith(PROJECT_EXTENSION)) openProjectFile(file);
+    else if (name.endsWith('.json')) loadRecordingFile(file);
+    else showToast("Unsupported File");
+  };
+
+  useEffect(() => {
+    saveUserPresets(userPresets);
+  }, [userPresets]);
+
+  useEffect(() => {
+    saveAnalysisSettings(analysisSettings);
+  }, [analysisSettings]);
+
+  // Settings, grid or emitter changes mid-recording would make the replay diverge, so they end it
+  useEffect(() => {
+    finishRecording();
+  }, [config, backendInfo, emitters]);
+
+  // Delete / Backspace removes the selected emitter while the emitter tool is active
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (mode !== ToolMode.EMITTER || selectedEmitterId === null) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+      if (e.key === 'Delete' || e.key === 'Backspace') {
+        e.preventDefault();
+        deleteEmitter(selectedEmitterId);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [mode, selectedEmitterId]);
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS), plus Ctrl+Y for redo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || !solver) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) handleRedo();
+        else handleUndo();
+      } else if (key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [solver, isReplaying]);
+
+  const handleExport = async (options: ExportOptions) => {
+    if (!solver || !canvasRef.current || exportAbort.current) return;
+    setShowExport(false);
+    const controller = new AbortController();
+    exportAbort.current = controller;
+    setExportJob({ format: options.format, progress: 0 });
+
+    try {
+      if (options.format === 'webm') {
+        const video = await recordWebM(canvasRef.current, options, controller.signal);
+        downloadFile(video, `aerograph-${Date.now()}.webm`);
+        showToast("Video Saved");
+      } else if (options.format === 'png') {
+        // Let the progress indicator paint; the render itself blocks the main thread
+        await new Promise(resolve => setTimeout(resolve, 50));
+        if (!solver.latest) throw new Error("Nothing to Render Yet");
+        const image = await renderHighRes(solver.latest, options.width, options.height, options.transparent);
+        downloadFile(image, `aerograph-${options.width}x${options.height}-${Date.now()}.png`);
+        showToast("Image Saved");
+      } else {
+        offlineRender.current = true;
+        const gif = await renderGif(solver, options, renderSettings, progress => setExportJob({ format: 'gif', progress }), controller.signal);
+        downloadFile(gif, `aerograph-${Date.now()}.gif`);
+        showToast("GIF Saved");
+      }
+    } catch (e) {
+      if (controller.signal.aborted) {
+        showToast("Export Cancelled");
+      } else {
+        console.error(e);
+        showToast(e instanceof Error ? e.message : "Export Failed");
+      }
+    } finally {
+      offlineRender.current = false;
+      exportAbort.current = null;
+      setExportJob(null);
+    }
+  };
+
   const handleSaveImage = () => {
     if (!canvasRef.current) return;
     try {
@@ -256,47 +708,201 @@ const App: React.FC = () => {
     }
   };
 
+  // Cancel a plan being requested or stop the one being drawn; what's on the canvas stays
+  const stopPlan = () => {
+    planAbort.current?.abort();
+    planAbort.current = null;
+    planPlayer.current = null;
+    setPlan({ phase: 'idle', title: null, progress: 0 });
+  };
+
+  // Ask for a plan and draw it as if the strokes came from the pointer, each one an undo step.
+  // Plans can start and stop emitters, which a recording can't replay, so a recording in progress
+  // is saved first and recording stays off until the plan is done.
+  const handleGeneratePlan = async (prompt: string) => {
+    if (!solver || isReplaying) return;
+    stopPlan();
+    finishRecording();
+    const controller = new AbortController();
+    planAbort.current = controller;
+    setPlan({ phase: 'planning', title: null, progress: 0 });
+    setPlanError(null);
+
+    try {
+      const smokePlan = await generateSmokePlan(prompt, analysisSettings, controller.signal);
+      const firstEmitterId = Math.max(0, ...projectSettings.current.emitters.map(emitter => emitter.id)) + 1;
+      planPlayer.current = new PlanPlayer(planTimeline(smokePlan, solver.size, brushTuning, firstEmitterId));
+      setPlan({ phase: 'playing', title: smokePlan.title, progress: 0 });
+    } catch (e) {
+      if (controller.signal.aborted) return;
+      console.error(e);
+      setPlanError(e instanceof AnalysisError ? e : new AnalysisError('server', "Could not plan that. Please try again."));
+      setPlan({ phase: 'idle', title: null, progress: 0 });
+    } finally {
+      if (planAbort.current === controller) planAbort.current = null;
+    }
+  };
+
+  planTick.current = () => {
+    const player = planPlayer.current;
+    if (!player || !solver) return;
+    const due = player.next();
+    for (const event of due.events) solver.queueBrush(event);
+    if (due.strokeEnded) solver.commitSnapshot();
+    if (due.started.length > 0 || due.stopped.length > 0) {
+      setEmitters(list => [...list.filter(emitter => !due.stopped.includes(emitter.id)), ...due.started]);
+    }
+    if (player.done) {
+      planPlayer.current = null;
+      setPlan({ phase: 'idle', title: null, progress: 0 });
+      showToast("Plan Finished");
+    } else if (Math.round(player.progress * 100) !== Math.round(plan.progress * 100)) {
+      setPlan(current => ({ ...current, progress: player.progress }));
+    }
+  };
+
+  // Keep every result with its frame; a failure here shouldn't spoil the analysis itself
+  const saveToGallery = async (dataUrl: string, result: GeminiAnalysisResult, analyzedConfig: SimulationConfig) => {
+    try {
+      const image = await (await fetch(dataUrl)).blob();
+      const entry = await addAnalysis({ createdAt: Date.now(), provider: analysisSettings.provider, result, config: analyzedConfig, image });
+      // The store drops its oldest entries past the limit; the gallery follows suit
+      setAnalysisHistory(list => [entry, ...list].slice(0, MAX_ANALYSES));
+    } catch (e) {
+      console.error('Could not save the analysis to the gallery', e);
+    }
+  };
+
+  const handleDeleteAnalysis = async (id: number) => {
+    try {
+      await deleteAnalysis(id);
+      setAnalysisHistory(list => list.filter(entry => entry.id !== id));
+    } catch (e) {
+      console.error(e);
+      showToast("Failed to Delete");
+    }
+  };
+
+  const handleCopyAnalysis = (entry: AnalysisEntry) => {
+    navigator.clipboard
+      .writeText(`${entry.result.title}\n\n${entry.result.description}`)
+      .then(() => showToast("Copied to Clipboard"))
+      .catch(err => {
+        console.error("Clipboard write failed", err);
+        showToast("Clipboard Failed");
+      });
+  };
+
+  // Cancel any analysis in flight and hide the panel
+  const closeAnalysis = () => {
+    analysisAbort.current?.abort();
+    analysisAbort.current = null;
+    setIsAnalyzing(false);
+    setAnalysisResult(null);
+    setAnalysisError(null);
+    setAnalysisStatus('');
+    setShowAnalysis(false);
+  };
+
+  // Clicking while an analysis runs cancels it
   const handleGeminiAnalysis = async () => {
+    if (analysisAbort.current) {
+      closeAnalysis();
+      return;
+    }
     if (!canvasRef.current) return;
+    const controller = new AbortController();
+    analysisAbort.current = controller;
     setIsAnalyzing(true);
     setShowAnalysis(true);
+    setShowGallery(false);
     setAnalysisResult(null);
+    setAnalysisError(null);
 
     try {
-        const dataUrl = canvasRef.current.toDataURL('image/png');
-        const result = await analyzeSmokeArt(dataUrl);
+        // The simulation keeps running while we wait, so later frames show how the smoke moved
+        const { frames: frameCount, frameInterval } = analysisSettings;
+        const frames: string[] = [];
+        for (let i = 0; i < frameCount; i++) {
+          if (i > 0) await new Promise(resolve => setTimeout(resolve, frameInterval * 1000));
+          if (controller.signal.aborted || !canvasRef.current) return;
+          setAnalysisStatus(frameCount > 1 ? `Watching frame ${i + 1} of ${frameCount}...` : '');
+          frames.push(canvasRef.current.toDataURL('image/png'));
+        }
+        setAnalysisStatus('');
+        const result = await analyzeSmokeArt(frames, analysisSettings, controller.signal);
         setAnalysisResult(result);
+        setShowAnalysisMarks(true);
+        // The gallery keeps the frame the shapes were found in
+        saveToGallery(frames[frames.length - 1], result, config);
     } catch (e) {
+        if (controller.signal.aborted) return;
         console.error(e);
-        setAnalysisResult({
-            title: "Connection Error",
-            description: "Could not reach the oracle. Please try again.",
-            mood: "Disconnected"
-        });
+        setAnalysisError(e instanceof AnalysisError ? e : new AnalysisError('server', "Analysis failed. Please try again."));
     } finally {
-        setIsAnalyzing(false);
+        if (analysisAbort.current === controller) {
+          analysisAbort.current = null;
+          setIsAnalyzing(false);
+        }
     }
   };
 
   return (
-    <div ref={containerRef} className="relative w-full h-screen bg-black overflow-hidden">
+    <div
+      ref={containerRef}
+      className="relative w-full h-screen bg-black overflow-hidden"
+      onDragOver={(e) => {
+        if (!e.dataTransfer.types.includes('Files')) return;
+        e.preventDefault();
+        setIsDragOver(true);
+      }}
+      onDragLeave={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDragOver(false);
+      }}
+      onDrop={handleDrop}
+    >
       {/* Main Canvas */}
       <canvas
         ref={canvasRef}
-        onMouseDown={handleStart}
-        onMouseMove={handleMove}
-        onMouseUp={handleEnd}
-        onMouseLeave={handleEnd}
-        onTouchStart={handleStart}
-        onTouchMove={handleMove}
-        onTouchEnd={handleEnd}
+        onPointerDown={handleStart}
+        onPointerMove={handleMove}
+        onPointerUp={handleEnd}
+        onPointerCancel={handleEnd}
         className="absolute top-0 left-0 cursor-crosshair touch-none"
       />
 
+      {/* Emitter Markers */}
+      {emitters.length > 0 && (
+        <EmitterMarkers
+          emitters={emitters}
+          selectedId={mode === ToolMode.EMITTER ? selectedEmitterId : null}
+          width={canvasSize.width}
+          height={canvasSize.height}
+          editing={mode === ToolMode.EMITTER}
+        />
+      )}
+
+      {/* Detected Shapes and Suggested Strokes */}
+      {showAnalysis && !showGallery && analysisResult && showAnalysisMarks && (
+        <AnalysisOverlay result={analysisResult} width={canvasSize.width} height={canvasSize.height} />
+      )}
+
+      {/* Drop Target */}
+      {isDragOver && (
+        <div className="absolute inset-4 rounded-3xl border-2 border-dashed border-zinc-500 bg-zinc-900/40 flex items-center justify-center pointer-events-none z-30">
+          <p className="text-zinc-300 text-xs uppercase tracking-widest">Drop a project or recording to open it</p>
+        </div>
+      )}
+
       {/* Floating Header */}
       <div className="absolute top-6 left-6 pointer-events-none select-none">
         <h1 className="text-white text-3xl font-extralight tracking-widest opacity-80">AERO<span className="font-bold">GRAPH</span></h1>
         <p className="text-gray-400 text-xs tracking-wider mt-1">FLUID DYNAMICS CANVAS</p>
+        {backendInfo && (
+          <p className="text-zinc-600 text-[10px] font-mono tracking-wider mt-1">
+            {backendInfo.kind === 'webgl2' ? 'GPU' : 'CPU'} · {backendInfo.size.width}×{backendInfo.size.height}
+          </p>
+        )}
       </div>
 
       {/* Toast Notification */}
@@ -318,6 +924,21 @@ const App: React.FC = () => {
           <IconCloud />
         </button>
 
+        {mode === ToolMode.SMOKE && (
+          <label
+            className="relative w-7 h-7 rounded-full border-2 border-zinc-600 hover:border-white transition-colors cursor-pointer overflow-hidden flex-shrink-0"
+            style={{ backgroundColor: smokeColor }}
+            title="Smoke Color"
+          >
+            <input
+              type="color"
+              value={smokeColor}
+              onChange={(e) => setSmokeColor(e.target.value)}
+              className="absolute inset-0 opacity-0 cursor-pointer"
+            />
+          </label>
+        )}
+
         <button 
           onClick={() => setMode(ToolMode.WIND)}
           className={`p-3 rounded-full transition-all duration-300 flex-shrink-0 ${mode === ToolMode.WIND ? 'bg-white text-black scale-110 shadow-lg shadow-white/20' : 'text-gray-400 hover:text-white hover:bg-zinc-800'}`}
@@ -334,6 +955,30 @@ const App: React.FC = () => {
           <IconEraser />
         </button>
 
+        <button 
+          onClick={() => setMode(ToolMode.WALL)}
+          className={`p-3 rounded-full transition-all duration-300 flex-shrink-0 ${mode === ToolMode.WALL ? 'bg-white text-black scale-110 shadow-lg shadow-white/20' : 'text-gray-400 hover:text-white hover:bg-zinc-800'}`}
+          title="Wall"
+        >
+          <IconWall />
+        </button>
+
+        <button 
+          onClick={() => setMode(ToolMode.WALL_ERASER)}
+          className={`p-3 rounded-full transition-all duration-300 flex-shrink-0 ${mode === ToolMode.WALL_ERASER ? 'bg-white text-black scale-110 shadow-lg shadow-white/20' : 'text-gray-400 hover:text-white hover:bg-zinc-800'}`}
+          title="Erase Wall"
+        >
+          <IconWallOff />
+        </button>
+
+        <button 
+          onClick={() => setMode(ToolMode.EMITTER)}
+          className={`p-3 rounded-full transition-all duration-300 flex-shrink-0 ${mode === ToolMode.EMITTER ? 'bg-white text-black scale-110 shadow-lg shadow-white/20' : 'text-gray-400 hover:text-white hover:bg-zinc-800'}`}
+          title="Emitters & Sinks"
+        >
+          <IconEmitter />
+        </button>
+
         <div className="w-px h-6 bg-zinc-700 mx-2 flex-shrink-0"></div>
         
         {/* Brush Size Slider */}
@@ -344,8 +989,8 @@ const App: React.FC = () => {
           </div>
           <input 
             type="range" 
-            min="1" 
-            max="20" 
+            min={BRUSH_LIMITS.size.min} 
+            max={BRUSH_LIMITS.size.max} 
             step="1"
             value={brushSize}
             onChange={(e) => setBrushSize(parseInt(e.target.value))}
@@ -355,6 +1000,74 @@ const App: React.FC = () => {
 
         <div className="w-px h-6 bg-zinc-700 mx-2 flex-shrink-0"></div>
 
+        <button 
+          onClick={handleUndo}
+          disabled={!history.canUndo}
+          className="p-3 rounded-full text-zinc-400 hover:text-white hover:bg-zinc-800 disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-zinc-400 transition-colors flex-shrink-0"
+          title="Undo (Ctrl+Z)"
+        >
+          <IconUndo />
+        </button>
+
+        <button 
+          onClick={handleRedo}
+          disabled={!history.canRedo}
+          className="p-3 rounded-full text-zinc-400 hover:text-white hover:bg-zinc-800 disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-zinc-400 transition-colors flex-shrink-0"
+          title="Redo (Ctrl+Shift+Z)"
+        >
+          <IconRedo />
+        </button>
+
+        <button 
+          onClick={handleToggleRecording}
+          disabled={isReplaying || plan.phase !== 'idle'}
+          className={`p-3 rounded-full transition-colors flex-shrink-0 disabled:opacity-30 ${isRecording ? 'bg-red-900/40 text-red-400 animate-pulse' : 'text-zinc-400 hover:text-white hover:bg-zinc-800'}`}
+          title={isRecording ? "Stop Recording & Save" : "Record Strokes"}
+        >
+          <IconRecord />
+        </button>
+
+        {isReplaying ? (
+          <button 
+            onClick={() => solver?.stopReplay()}
+            className="p-3 rounded-full bg-zinc-700 text-white transition-colors flex-shrink-0"
+            title="Stop Replay"
+          >
+            <IconStop />
+          </button>
+        ) : (
+          <button 
+            onClick={() => recordingInputRef.current?.click()}
+            className="p-3 rounded-full text-zinc-400 hover:text-white hover:bg-zinc-800 transition-colors flex-shrink-0"
+            title="Load & Replay Recording"
+          >
+            <IconReplay />
+          </button>
+        )}
+        <input
+          ref={recordingInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleLoadRecording}
+          className="hidden"
+        />
+
+        <button 
+          onClick={() => setShowBrushes(!showBrushes)}
+          className={`p-3 rounded-full transition-colors flex-shrink-0 ${showBrushes ? 'bg-zinc-700 text-white' : 'text-zinc-400 hover:text-white hover:bg-zinc-800'}`}
+          title="Brushes"
+        >
+          <IconBrush />
+        </button>
+
+        <button 
+          onClick={() => setShowSettings(!showSettings)}
+          className={`p-3 rounded-full transition-colors flex-shrink-0 ${showSettings ? 'bg-zinc-700 text-white' : 'text-zinc-400 hover:text-white hover:bg-zinc-800'}`}
+          title="Simulation Settings"
+        >
+          <IconSliders />
+        </button>
+
         <button 
           onClick={handleReset}
           className="p-3 rounded-full text-red-400 hover:bg-red-900/30 hover:text-red-200 transition-colors flex-shrink-0"
@@ -365,6 +1078,30 @@ const App: React.FC = () => {
 
         <div className="w-px h-6 bg-zinc-700 mx-2 flex-shrink-0"></div>
 
+        {/* Project Files */}
+        <button 
+            onClick={() => projectInputRef.current?.click()}
+            className="p-3 rounded-full text-zinc-400 hover:text-white hover:bg-zinc-800 transition-colors flex-shrink-0"
+            title="Open Project"
+        >
+            <IconFolderOpen />
+        </button>
+        <input
+          ref={projectInputRef}
+          type="file"
+          accept={PROJECT_EXTENSION}
+          onChange={handleOpenProject}
+          className="hidden"
+        />
+
+        <button 
+            onClick={handleSaveProject}
+            className="p-3 rounded-full text-zinc-400 hover:text-white hover:bg-zinc-800 transition-colors flex-shrink-0"
+            title="Save Project"
+        >
+            <IconSave />
+        </button>
+
         {/* Export Tools */}
         <button 
             onClick={handleSaveImage}
@@ -382,27 +1119,163 @@ const App: React.FC = () => {
             <IconCopy />
         </button>
 
+        <button 
+            onClick={() => setShowExport(!showExport)}
+            disabled={exportJob !== null}
+            className={`p-3 rounded-full transition-colors flex-shrink-0 disabled:opacity-30 ${showExport ? 'bg-zinc-700 text-white' : 'text-zinc-400 hover:text-white hover:bg-zinc-800'}`}
+            title="Export Video, GIF or Print-Size Image"
+        >
+            <IconFilm />
+        </button>
+
         <div className="w-px h-6 bg-zinc-700 mx-2 flex-shrink-0"></div>
 
         <button
           onClick={handleGeminiAnalysis}
-          disabled={isAnalyzing}
+          title={isAnalyzing ? "Cancel Analysis" : undefined}
           className={`flex items-center gap-2 px-4 py-2 rounded-full transition-all border border-indigo-500/30 flex-shrink-0
             ${isAnalyzing ? 'bg-indigo-900/20 text-indigo-300 animate-pulse' : 'bg-indigo-600/20 text-indigo-400 hover:bg-indigo-600 hover:text-white hover:border-indigo-500'}
           `}
         >
            <IconSparkles className={isAnalyzing ? "animate-spin" : ""} />
-           <span className="text-sm font-medium hidden sm:inline">Ask Gemini</span>
+           <span className="text-sm font-medium hidden sm:inline">{getAnalysisProviderInfo(analysisSettings.provider).action}</span>
+        </button>
+
+        <button
+          onClick={() => setShowPrompt(!showPrompt)}
+          className={`p-3 rounded-full transition-colors flex-shrink-0 ${showPrompt ? 'bg-zinc-700 text-white' : 'text-zinc-400 hover:text-white hover:bg-zinc-800'}`}
+          title="Prompt to Smoke"
+        >
+          <IconWand />
+        </button>
+
+        <button
+          onClick={() => setShowGallery(!showGallery)}
+          className={`p-3 rounded-full transition-colors flex-shrink-0 ${showGallery ? 'bg-zinc-700 text-white' : 'text-zinc-400 hover:text-white hover:bg-zinc-800'}`}
+          title="Analysis Gallery"
+        >
+          <IconGallery />
         </button>
       </div>
 
+      {/* Settings Panel */}
+      {showSettings && (
+        <SettingsPanel
+          config={config}
+          backend={backendInfo?.kind ?? initialBackend}
+          historyBytes={history.bytes}
+          render={renderSettings}
+          onChange={setConfig}
+          onRenderChange={setRenderSettings}
+          onWindTunnel={handleWindTunnel}
+          brushTuning={brushTuning}
+          onBrushTuningChange={setBrushTuning}
+          analysis={analysisSettings}
+          onAnalysisChange={setAnalysisSettings}
+          onClose={() => setShowSettings(false)}
+        />
+      )}
+
+      {/* Emitter Editor */}
+      {mode === ToolMode.EMITTER && !showExport && !showGallery && (
+        <EmitterPanel
+          placeKind={emitterKind}
+          selected={emitters.find(emitter => emitter.id === selectedEmitterId) ?? null}
+          onPlaceKindChange={setEmitterKind}
+          onChange={updateEmitter}
+          onDelete={deleteEmitter}
+        />
+      )}
+
+      {/* Brush Library (shares the right-hand spot with the emitter editor) */}
+      {showBrushes && mode !== ToolMode.EMITTER && !showExport && !showGallery && (
+        <BrushPanel
+          shape={brushShape}
+          density={brushDensity}
+          jitter={brushJitter}
+          userPresets={userPresets}
+          onShapeChange={setBrushShape}
+          onDensityChange={setBrushDensity}
+          onJitterChange={setBrushJitter}
+          onApply={applyBrushPreset}
+          onSave={saveBrushPreset}
+          onDelete={(id) => setUserPresets(list => list.filter(preset => preset.id !== id))}
+          onImport={importBrushPresets}
+          onExport={exportBrushPresets}
+          onClose={() => setShowBrushes(false)}
+        />
+      )}
+
+      {/* Export Dialog */}
+      {showExport && (
+        <ExportDialog
+          aspect={canvasRef.current && canvasRef.current.height > 0 ? canvasRef.current.width / canvasRef.current.height : 1}
+          onStart={handleExport}
+          onClose={() => setShowExport(false)}
+        />
+      )}
+
+      {/* Export Progress */}
+      {exportJob && (
+        <div className="absolute top-20 left-1/2 transform -translate-x-1/2 bg-zinc-900/90 text-white pl-4 pr-2 py-2 rounded-full text-xs shadow-xl backdrop-blur border border-zinc-700 z-40 flex items-center gap-3">
+          {exportJob.format === 'webm' ? (
+            <span className="flex items-center gap-2 text-red-400">
+              <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse"></span>
+              Recording Video
+            </span>
+          ) : exportJob.format === 'png' ? (
+            <span className="text-zinc-300 pr-2 animate-pulse">Rendering Image</span>
+          ) : (
+            <>
+              <span className="text-zinc-300">Rendering GIF</span>
+              <div className="w-24 h-1 bg-zinc-700 rounded-full overflow-hidden">
+                <div className="h-full bg-white" style={{ width: `${Math.round(exportJob.progress * 100)}%` }}></div>
+              </div>
+              <span className="font-mono text-zinc-500">{Math.round(exportJob.progress * 100)}%</span>
+            </>
+          )}
+          {exportJob.format !== 'png' && (
+            <button
+              onClick={() => exportAbort.current?.abort()}
+              className="px-3 py-1 rounded-full bg-zinc-800 hover:bg-zinc-700 text-zinc-300 hover:text-white transition-colors"
+            >
+              {exportJob.format === 'webm' ? 'Stop' : 'Cancel'}
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Prompt to Smoke */}
+      {showPrompt && !showExport && (
+        <PromptPanel
+          phase={plan.phase}
+          title={plan.title}
+          progress={plan.progress}
+          error={planError}
+          onGenerate={handleGeneratePlan}
+          onStop={stopPlan}
+          onClose={() => setShowPrompt(false)}
+        />
+      )}
+
+      {/* Analysis Gallery */}
+      {showGallery && (
+        <AnalysisGallery
+          entries={analysisHistory}
+          onDownload={(entry) => downloadFile(entry.image, `aerograph-analysis-${entry.createdAt}.png`)}
+          onCopy={handleCopyAnalysis}
+          onDelete={handleDeleteAnalysis}
+          onClose={() => setShowGallery(false)}
+        />
+      )}
+
       {/* Analysis Modal/Overlay */}
-      {showAnalysis && (
+      {showAnalysis && !showGallery && (
         <div className="absolute top-20 right-6 w-80 bg-zinc-900/90 backdrop-blur-xl border border-zinc-800 p-6 rounded-2xl shadow-2xl animate-in slide-in-from-right-10 duration-500 z-20">
           <div className="flex justify-between items-start mb-4">
             <h2 className="text-indigo-400 text-xs font-bold tracking-widest uppercase">Analysis Result</h2>
             <button 
-              onClick={() => setShowAnalysis(false)} 
+              onClick={closeAnalysis} 
               className="text-gray-500 hover:text-white"
             >
               ✕
@@ -414,7 +1287,7 @@ const App: React.FC = () => {
                <div className="h-4 bg-zinc-800 rounded w-3/4 animate-pulse"></div>
                <div className="h-3 bg-zinc-800 rounded w-full animate-pulse"></div>
                <div className="h-3 bg-zinc-800 rounded w-5/6 animate-pulse"></div>
-               <p className="text-xs text-gray-500 mt-2">Consulting the oracle...</p>
+               <p className="text-xs text-gray-500 mt-2">{analysisStatus || 'Consulting the oracle...'}</p>
             </div>
           ) : analysisResult ? (
             <div className="space-y-4">
@@ -428,6 +1301,62 @@ const App: React.FC = () => {
                  <span className="text-xs uppercase tracking-wider text-zinc-600">Mood:</span>
                  <span className="text-xs text-white bg-zinc-800 px-2 py-1 rounded-md">{analysisResult.mood}</span>
               </div>
+              {analysisResult.motion && (
+                <div className="flex items-start gap-2">
+                   <span className="text-xs uppercase tracking-wider text-zinc-600 pt-0.5">Motion:</span>
+                   <span className="text-xs text-zinc-300 leading-relaxed">{analysisResult.motion}</span>
+                </div>
+              )}
+              {analysisResult.palette.length > 0 && (
+                <div className="flex items-center gap-2">
+                   <span className="text-xs uppercase tracking-wider text-zinc-600">Palette:</span>
+                   {analysisResult.palette.map(color => (
+                     <span key={color} className="w-4 h-4 rounded-full border border-zinc-700" style={{ backgroundColor: color }} title={color} />
+                   ))}
+                </div>
+              )}
+              {analysisResult.suggestions.length > 0 && (
+                <div className="space-y-1">
+                   <span className="text-xs uppercase tracking-wider text-zinc-600">Try next:</span>
+                   <ol className="space-y-1">
+                     {analysisResult.suggestions.map((suggestion, i) => (
+                       <li key={i} className="flex gap-2 text-xs text-zinc-400 leading-relaxed">
+                         <span className="text-amber-300 font-mono">{i + 1}</span>
+                         <span>{suggestion.description}</span>
+                       </li>
+                     ))}
+                   </ol>
+                </div>
+              )}
+              {(analysisResult.shapes.length > 0 || analysisResult.suggestions.some(s => s.path.length > 0)) && (
+                <button
+                  onClick={() => setShowAnalysisMarks(!showAnalysisMarks)}
+                  className="text-[10px] uppercase tracking-widest text-zinc-400 hover:text-white border border-zinc-700 hover:border-zinc-500 rounded-md px-3 py-1.5 transition-colors"
+                >
+                  {showAnalysisMarks ? 'Hide Marks' : 'Show Marks'}
+                </button>
+              )}
+            </div>
+          ) : analysisError ? (
+            <div className="space-y-3">
+              <h3 className="text-red-400 text-sm font-medium">{ANALYSIS_ERROR_TITLES[analysisError.kind]}</h3>
+              <p className="text-zinc-400 text-sm leading-relaxed">{analysisError.message}</p>
+              <div className="flex gap-2">
+                <button
+                  onClick={handleGeminiAnalysis}
+                  className="text-[10px] uppercase tracking-widest text-zinc-400 hover:text-white border border-zinc-700 hover:border-zinc-500 rounded-md px-3 py-1.5 transition-colors"
+                >
+                  Try Again
+                </button>
+                {analysisError.kind === 'missing-key' && (
+                  <button
+                    onClick={() => setShowSettings(true)}
+                    className="text-[10px] uppercase tracking-widest text-zinc-400 hover:text-white border border-zinc-700 hover:border-zinc-500 rounded-md px-3 py-1.5 transition-colors"
+                  >
+                    Open Settings
+                  </button>
+                )}
+              </div>
             </div>
           ) : (
             <p className="text-red-400 text-sm">Failed to analyze.</p>
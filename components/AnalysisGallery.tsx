@@ -0,0 +1,160 @@
+import React, { useEffect, useState } from 'react';
+import { AnalysisEntry, SimulationConfig } from '../types';
+import { getAnalysisProviderInfo } from '../services/analysis';
+import { IconCopy, IconDownload, IconTrash } from './Icons';
+
+interface AnalysisGalleryProps {
+  entries: AnalysisEntry[];
+  onDownload: (entry: AnalysisEntry) => void;
+  onCopy: (entry: AnalysisEntry) => void;
+  onDelete: (id: number) => void;
+  onClose: () => void;
+}
+
+// An object URL for a stored image, released when the image changes or the component goes away
+const useObjectUrl = (blob: Blob) => {
+  const [url, setUrl] = useState<string | null>(null);
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [blob]);
+  return url;
+};
+
+const formatValue = (value: unknown) =>
+  typeof value === 'number' ? String(Number(value.toPrecision(3))) : typeof value === 'object' ? 'custom' : String(value);
+
+// Settings that differ between two entries, as "key: a → b"
+const configDifferences = (a: SimulationConfig, b: SimulationConfig) =>
+  (Object.keys(a) as (keyof SimulationConfig)[])
+    .filter(key => JSON.stringify(a[key]) !== JSON.stringify(b[key]))
+    .map(key => `${key}: ${formatValue(a[key])} → ${formatValue(b[key])}`);
+
+const EntryImage = ({ blob, className }: { blob: Blob; className: string }) => {
+  const url = useObjectUrl(blob);
+  return url ? <img src={url} alt="" className={className} /> : <div className={`${className} bg-zinc-800`} />;
+};
+
+const ActionButton = ({ title, onClick, children }: { title: string; onClick: () => void; children: React.ReactNode }) => (
+  <button onClick={onClick} title={title} className="p-1.5 rounded-md text-zinc-500 hover:text-white hover:bg-zinc-800 transition-colors">
+    {children}
+  </button>
+);
+
+interface EntryRowProps {
+  entry: AnalysisEntry;
+  selected: boolean;
+  onToggleCompare: () => void;
+  onDownload: () => void;
+  onCopy: () => void;
+  onDelete: () => void;
+}
+
+const EntryRow: React.FC<EntryRowProps> = ({ entry, selected, onToggleCompare, onDownload, onCopy, onDelete }) => (
+  <div className={`flex gap-3 p-2 rounded-xl border transition-colors ${selected ? 'border-indigo-500/60 bg-indigo-950/30' : 'border-zinc-800'}`}>
+    <button onClick={onToggleCompare} title={selected ? 'Remove from comparison' : 'Select to compare'} className="flex-shrink-0">
+      <EntryImage blob={entry.thumbnail} className="w-20 h-14 object-cover rounded-md" />
+    </button>
+    <div className="flex-1 min-w-0">
+      <p className="text-sm text-white font-serif italic truncate">"{entry.result.title}"</p>
+      <p className="text-[10px] text-zinc-500">
+        {new Date(entry.createdAt).toLocaleString()} · {getAnalysisProviderInfo(entry.provider).label}
+      </p>
+      <div className="flex items-center justify-between mt-1">
+        <span className="text-[10px] text-white bg-zinc-800 px-1.5 py-0.5 rounded-md truncate">{entry.result.mood}</span>
+        <div className="flex">
+          <ActionButton title="Download Image" onClick={onDownload}>
+            <IconDownload className="w-3.5 h-3.5" />
+          </ActionButton>
+          <ActionButton title="Copy Title & Description" onClick={onCopy}>
+            <IconCopy className="w-3.5 h-3.5" />
+          </ActionButton>
+          <ActionButton title="Delete" onClick={onDelete}>
+            <IconTrash className="w-3.5 h-3.5" />
+          </ActionButton>
+        </div>
+      </div>
+    </div>
+  </div>
+);
+
+const CompareColumn = ({ entry }: { entry: AnalysisEntry }) => (
+  <div className="flex-1 min-w-0 space-y-2">
+    <EntryImage blob={entry.image} className="w-full rounded-lg" />
+    <p className="text-sm text-white font-serif italic">"{entry.result.title}"</p>
+    <p className="text-[10px] text-zinc-500">{new Date(entry.createdAt).toLocaleString()}</p>
+    <p className="text-xs text-zinc-400 leading-relaxed">{entry.result.description}</p>
+    <span className="inline-block text-[10px] text-white bg-zinc-800 px-1.5 py-0.5 rounded-md">{entry.result.mood}</span>
+    {entry.result.motion && <p className="text-[10px] text-zinc-500">{entry.result.motion}</p>}
+    {entry.result.palette.length > 0 && (
+      <div className="flex gap-1">
+        {entry.result.palette.map(color => (
+          <span key={color} className="w-3 h-3 rounded-full border border-zinc-700" style={{ backgroundColor: color }} title={color} />
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+// Every past analysis with its frame. Click two thumbnails to compare them side by side.
+export const AnalysisGallery = ({ entries, onDownload, onCopy, onDelete, onClose }: AnalysisGalleryProps) => {
+  const [compareIds, setCompareIds] = useState<number[]>([]);
+  const compared = compareIds.map(id => entries.find(entry => entry.id === id)).filter((entry): entry is AnalysisEntry => !!entry);
+
+  // Picking a third entry replaces the older of the two
+  const toggleCompare = (id: number) => {
+    setCompareIds(ids => (ids.includes(id) ? ids.filter(other => other !== id) : [...ids, id].slice(-2)));
+  };
+
+  return (
+    <div className="absolute top-24 right-6 w-[28rem] max-w-[calc(100vw-3rem)] max-h-[calc(100vh-12rem)] overflow-y-auto bg-zinc-900/90 backdrop-blur-xl border border-zinc-800 p-5 rounded-2xl shadow-2xl z-20 space-y-3">
+      <div className="flex justify-between items-start">
+        <h2 className="text-indigo-400 text-xs font-bold tracking-widest uppercase">Analysis Gallery</h2>
+        <button onClick={onClose} className="text-gray-500 hover:text-white">
+          ✕
+        </button>
+      </div>
+
+      {compared.length === 2 ? (
+        <div className="space-y-3">
+          <button onClick={() => setCompareIds([])} className="text-[10px] uppercase tracking-widest text-zinc-400 hover:text-white">
+            ← Back to Gallery
+          </button>
+          <div className="flex gap-3">
+            <CompareColumn entry={compared[0]} />
+            <CompareColumn entry={compared[1]} />
+          </div>
+          <div className="border-t border-zinc-800 pt-3">
+            <p className="text-[9px] text-zinc-500 font-mono mb-1">SETTINGS CHANGED</p>
+            {configDifferences(compared[0].config, compared[1].config).map(line => (
+              <p key={line} className="text-[10px] text-zinc-400 font-mono">
+                {line}
+              </p>
+            ))}
+            {configDifferences(compared[0].config, compared[1].config).length === 0 && <p className="text-[10px] text-zinc-500">None</p>}
+          </div>
+        </div>
+      ) : entries.length === 0 ? (
+        <p className="text-sm text-zinc-500">No analyses yet. Each one you run is kept here with its frame.</p>
+      ) : (
+        <div className="space-y-2">
+          <p className="text-[10px] text-zinc-500">
+            {compared.length === 1 ? 'Pick one more thumbnail to compare.' : 'Click two thumbnails to compare them.'}
+          </p>
+          {entries.map(entry => (
+            <EntryRow
+              key={entry.id}
+              entry={entry}
+              selected={compareIds.includes(entry.id)}
+              onToggleCompare={() => toggleCompare(entry.id)}
+              onDownload={() => onDownload(entry)}
+              onCopy={() => onCopy(entry)}
+              onDelete={() => onDelete(entry.id)}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
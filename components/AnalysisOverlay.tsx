@@ -0,0 +1,56 @@
+import React from 'react';
+import { GeminiAnalysisResult } from '../types';
+
+interface AnalysisOverlayProps {
+  result: GeminiAnalysisResult;
+  width: number; // Canvas size in CSS pixels
+  height: number;
+}
+
+const SHAPE_COLOR = '#a5b4fc';
+const SUGGESTION_COLOR = '#fcd34d';
+
+// The critique's detected shapes and suggested strokes drawn over the canvas. Suggestions are numbered to match
+// the list in the analysis card.
+export const AnalysisOverlay = ({ result, width, height }: AnalysisOverlayProps) => (
+  <svg className="absolute top-0 left-0 pointer-events-none" width={width} height={height}>
+    {result.shapes.map((shape, i) => {
+      const x = shape.region.x * width;
+      const y = shape.region.y * height;
+      return (
+        <g key={`shape-${i}`}>
+          <rect
+            x={x}
+            y={y}
+            width={shape.region.width * width}
+            height={shape.region.height * height}
+            rx={6}
+            fill="none"
+            stroke={SHAPE_COLOR}
+            strokeOpacity={0.8}
+            strokeWidth={1.25}
+          />
+          <text x={x + 6} y={Math.max(12, y - 6)} fill={SHAPE_COLOR} fontSize={11} fontFamily="monospace">
+            {shape.label}
+          </text>
+        </g>
+      );
+    })}
+    {result.suggestions.map((suggestion, i) => {
+      if (!suggestion.path.length) return null;
+      const points = suggestion.path.map(p => ({ x: p.x * width, y: p.y * height }));
+      const start = points[0];
+      const end = points[points.length - 1];
+      return (
+        <g key={`suggestion-${i}`} stroke={SUGGESTION_COLOR} fill="none" strokeWidth={1.5}>
+          <polyline points={points.map(p => `${p.x},${p.y}`).join(' ')} strokeDasharray="6 4" strokeLinejoin="round" />
+          <circle cx={end.x} cy={end.y} r={3} fill={SUGGESTION_COLOR} />
+          <circle cx={start.x} cy={start.y} r={8} fill="#18181b" />
+          <text x={start.x} y={start.y + 3.5} fill={SUGGESTION_COLOR} stroke="none" fontSize={10} fontFamily="monospace" textAnchor="middle">
+            {i + 1}
+          </text>
+        </g>
+      );
+    })}
+  </svg>
+);
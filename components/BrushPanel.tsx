@@ -0,0 +1,152 @@
+import React, { useRef, useState } from 'react';
+import { BrushPreset, BrushShape } from '../types';
+import { BRUSH_SHAPES, BUILT_IN_PRESETS } from '../utils/brushPresets';
+import { BRUSH_LIMITS } from '../constants';
+import { SliderRow } from './SettingsPanel';
+import { ButtonRow } from './EmitterPanel';
+
+interface BrushPanelProps {
+  shape: BrushShape;
+  density: number;
+  jitter: number;
+  userPresets: BrushPreset[];
+  onShapeChange: (shape: BrushShape) => void;
+  onDensityChange: (density: number) => void;
+  onJitterChange: (jitter: number) => void;
+  onApply: (preset: BrushPreset) => void;
+  onSave: (name: string) => void; // Save the current brush as a new user preset
+  onDelete: (id: string) => void;
+  onImport: (file: File) => void;
+  onExport: () => void;
+  onClose: () => void;
+}
+
+interface PresetButtonProps {
+  preset: BrushPreset;
+  onApply: () => void;
+  onDelete?: () => void; // Only user presets can be deleted
+}
+
+const PresetButton: React.FC<PresetButtonProps> = ({ preset, onApply, onDelete }) => (
+  <div className="flex items-center gap-2 group">
+    <button
+      onClick={onApply}
+      className="flex-1 flex items-center gap-2 text-left text-xs text-zinc-300 hover:text-white rounded-md px-2 py-1.5 border border-zinc-800 hover:border-zinc-600 transition-colors"
+    >
+      <span className="w-3 h-3 rounded-full border border-zinc-600 flex-shrink-0" style={{ backgroundColor: preset.color }} />
+      <span className="flex-1 truncate">{preset.name}</span>
+      <span className="text-[9px] text-zinc-500 font-mono">{preset.mode}</span>
+    </button>
+    {onDelete && (
+      <button onClick={onDelete} className="text-[10px] text-zinc-500 hover:text-red-300" title="Delete Preset">
+        ✕
+      </button>
+    )}
+  </div>
+);
+
+// The current brush's shape, density and jitter, plus the preset library
+export const BrushPanel = ({
+  shape,
+  density,
+  jitter,
+  userPresets,
+  onShapeChange,
+  onDensityChange,
+  onJitterChange,
+  onApply,
+  onSave,
+  onDelete,
+  onImport,
+  onExport,
+  onClose
+}: BrushPanelProps) => {
+  const [name, setName] = useState('');
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const save = () => {
+    if (!name.trim()) return;
+    onSave(name.trim());
+    setName('');
+  };
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onImport(file);
+  };
+
+  return (
+    <div className="absolute top-24 right-6 w-72 max-h-[calc(100vh-12rem)] overflow-y-auto bg-zinc-900/90 backdrop-blur-xl border border-zinc-800 p-5 rounded-2xl shadow-2xl z-20 space-y-3">
+      <div className="flex justify-between items-start">
+        <h2 className="text-zinc-300 text-xs font-bold tracking-widest uppercase">Brushes</h2>
+        <button onClick={onClose} className="text-gray-500 hover:text-white">
+          ✕
+        </button>
+      </div>
+
+      <div className="space-y-3">
+        <p className="text-[9px] text-zinc-500 font-mono">SHAPE</p>
+        <ButtonRow options={BRUSH_SHAPES} value={shape} onChange={onShapeChange} />
+        <SliderRow label="DENSITY" value={density} min={BRUSH_LIMITS.density.min} max={BRUSH_LIMITS.density.max} step={0.1} format={(v) => `${v.toFixed(1)}×`} onChange={onDensityChange} />
+        <SliderRow
+          label="JITTER"
+          value={jitter}
+          min={BRUSH_LIMITS.jitter.min}
+          max={BRUSH_LIMITS.jitter.max}
+          step={0.05}
+          format={(v) => `${Math.round(v * 100)}%`}
+          onChange={onJitterChange}
+        />
+      </div>
+
+      <div className="border-t border-zinc-800 pt-3 space-y-2">
+        <p className="text-[10px] uppercase tracking-widest text-zinc-400">Library</p>
+        {BUILT_IN_PRESETS.map(preset => (
+          <PresetButton key={preset.id} preset={preset} onApply={() => onApply(preset)} />
+        ))}
+        {userPresets.length > 0 && <p className="text-[9px] text-zinc-500 font-mono pt-1">SAVED</p>}
+        {userPresets.map(preset => (
+          <PresetButton key={preset.id} preset={preset} onApply={() => onApply(preset)} onDelete={() => onDelete(preset.id)} />
+        ))}
+      </div>
+
+      <div className="border-t border-zinc-800 pt-3 space-y-2">
+        <div className="flex gap-2">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && save()}
+            placeholder="Preset name"
+            className="flex-1 min-w-0 bg-zinc-800 text-zinc-200 text-xs rounded-md px-2 py-1 border border-zinc-700"
+          />
+          <button
+            onClick={save}
+            disabled={!name.trim()}
+            className="text-[10px] uppercase tracking-widest text-zinc-400 hover:text-white border border-zinc-700 hover:border-zinc-500 rounded-md px-3 disabled:opacity-30 transition-colors"
+            title="Save the current brush"
+          >
+            Save
+          </button>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => importInputRef.current?.click()}
+            className="flex-1 text-[10px] uppercase tracking-widest text-zinc-400 hover:text-white border border-zinc-700 hover:border-zinc-500 rounded-md py-1.5 transition-colors"
+          >
+            Import
+          </button>
+          <button
+            onClick={onExport}
+            disabled={userPresets.length === 0}
+            className="flex-1 text-[10px] uppercase tracking-widest text-zinc-400 hover:text-white border border-zinc-700 hover:border-zinc-500 rounded-md py-1.5 disabled:opacity-30 transition-colors"
+            title="Download your saved presets as JSON"
+          >
+            Export
+          </button>
+        </div>
+        <input ref={importInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+      </div>
+    </div>
+  );
+};
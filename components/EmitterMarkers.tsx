@@ -0,0 +1,51 @@
+import React from 'react';
+import { Emitter } from '../types';
+import { DEFAULT_CONFIG } from '../constants';
+
+interface EmitterMarkersProps {
+  emitters: Emitter[];
+  selectedId: number | null;
+  width: number; // Canvas size in CSS pixels
+  height: number;
+  editing: boolean; // The emitter tool is active; markers are faint otherwise
+}
+
+// On-screen radius of an emitter. Brush units are cells on the default grid, which spans the shorter side.
+export const emitterRadiusPx = (emitter: Emitter, width: number, height: number) =>
+  (emitter.radius * Math.min(width, height)) / DEFAULT_CONFIG.resolution;
+
+const KIND_COLORS = { smoke: '#ffffff', wind: '#67e8f9', sink: '#f87171' };
+
+// Emitter positions and directions drawn over the canvas. Purely visual: picking is done by the canvas handlers.
+export const EmitterMarkers = ({ emitters, selectedId, width, height, editing }: EmitterMarkersProps) => (
+  <svg
+    className={`absolute top-0 left-0 pointer-events-none transition-opacity ${editing ? 'opacity-100' : 'opacity-30'}`}
+    width={width}
+    height={height}
+  >
+    {emitters.map(emitter => {
+      const cx = emitter.x * width;
+      const cy = emitter.y * height;
+      const r = Math.max(6, emitterRadiusPx(emitter, width, height));
+      const color = KIND_COLORS[emitter.kind];
+      const selected = emitter.id === selectedId;
+      const radians = (emitter.angle * Math.PI) / 180;
+      const tipX = cx + Math.cos(radians) * (r + 14);
+      const tipY = cy + Math.sin(radians) * (r + 14);
+      return (
+        <g key={emitter.id} stroke={color} fill="none" strokeWidth={selected ? 2 : 1.25}>
+          <circle cx={cx} cy={cy} r={r} strokeDasharray={emitter.kind === 'sink' ? '4 3' : undefined} />
+          {selected && <circle cx={cx} cy={cy} r={r + 4} strokeOpacity={0.4} />}
+          {emitter.kind === 'sink' ? (
+            <circle cx={cx} cy={cy} r={2} fill={color} />
+          ) : (
+            <>
+              <line x1={cx} y1={cy} x2={tipX} y2={tipY} />
+              <circle cx={tipX} cy={tipY} r={2.5} fill={emitter.kind === 'smoke' ? emitter.color : color} />
+            </>
+          )}
+        </g>
+      );
+    })}
+  </svg>
+);
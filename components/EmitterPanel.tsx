@@ -0,0 +1,131 @@
+import React from 'react';
+import { Emitter, EmitterKind } from '../types';
+import { EMITTER_KINDS, OSCILLATIONS } from '../utils/emitters';
+import { SliderRow } from './SettingsPanel';
+
+interface EmitterPanelProps {
+  placeKind: EmitterKind; // What a click on empty canvas places
+  selected: Emitter | null;
+  onPlaceKindChange: (kind: EmitterKind) => void;
+  onChange: (emitter: Emitter) => void;
+  onDelete: (id: number) => void;
+}
+
+export const ButtonRow = <T extends string>({ options, value, onChange }: { options: { kind: T; label: string }[]; value: T; onChange: (value: T) => void }) => (
+  <div className="flex gap-2">
+    {options.map(option => (
+      <button
+        key={option.kind}
+        onClick={() => onChange(option.kind)}
+        className={`flex-1 text-xs rounded-md py-1.5 border transition-colors ${value === option.kind ? 'bg-white text-black border-white' : 'text-zinc-400 border-zinc-700 hover:text-white'}`}
+      >
+        {option.label}
+      </button>
+    ))}
+  </div>
+);
+
+// Shown with the emitter tool: what to place next, and an editor for the selected emitter
+export const EmitterPanel = ({ placeKind, selected, onPlaceKindChange, onChange, onDelete }: EmitterPanelProps) => {
+  const update = <K extends keyof Emitter>(key: K, value: Emitter[K]) => {
+    if (selected) onChange({ ...selected, [key]: value });
+  };
+
+  return (
+    <div className="absolute top-24 right-6 w-72 max-h-[calc(100vh-12rem)] overflow-y-auto bg-zinc-900/90 backdrop-blur-xl border border-zinc-800 p-5 rounded-2xl shadow-2xl z-20 space-y-3">
+      <h2 className="text-zinc-300 text-xs font-bold tracking-widest uppercase">Emitters</h2>
+
+      <div className="space-y-2">
+        <p className="text-[9px] text-zinc-500 font-mono">PLACE</p>
+        <ButtonRow options={EMITTER_KINDS} value={placeKind} onChange={onPlaceKindChange} />
+        <p className="text-[10px] text-zinc-500">Click the canvas to place, click a marker to select it, drag to move.</p>
+      </div>
+
+      {selected && (
+        <div className="border-t border-zinc-800 pt-3 space-y-3">
+          <div className="flex justify-between items-center">
+            <p className="text-[10px] uppercase tracking-widest text-zinc-400">Selected</p>
+            <button onClick={() => onDelete(selected.id)} className="text-[10px] text-red-400 hover:text-red-200">
+              Delete
+            </button>
+          </div>
+          <ButtonRow options={EMITTER_KINDS} value={selected.kind} onChange={(kind) => update('kind', kind)} />
+
+          {selected.kind !== 'sink' && (
+            <SliderRow
+              label="DIRECTION"
+              value={selected.angle}
+              min={-180}
+              max={180}
+              step={5}
+              format={(v) => `${v}°`}
+              onChange={(v) => update('angle', v)}
+            />
+          )}
+          <SliderRow
+            label={selected.kind === 'sink' ? 'STRENGTH' : 'RATE'}
+            value={selected.rate}
+            min={0}
+            max={1}
+            step={0.05}
+            format={(v) => `${Math.round(v * 100)}%`}
+            onChange={(v) => update('rate', v)}
+          />
+          <SliderRow label="RADIUS" value={selected.radius} min={1} max={20} step={1} onChange={(v) => update('radius', v)} />
+          {selected.kind === 'smoke' && (
+            <label className="flex items-center justify-between text-[9px] text-zinc-500 font-mono cursor-pointer">
+              <span>COLOR</span>
+              <input
+                type="color"
+                value={selected.color}
+                onChange={(e) => update('color', e.target.value)}
+                className="w-6 h-6 bg-transparent cursor-pointer"
+              />
+            </label>
+          )}
+
+          <p className="text-[9px] text-zinc-500 font-mono">OSCILLATION</p>
+          <ButtonRow
+            options={OSCILLATIONS}
+            value={selected.oscillation}
+            // Amplitude means degrees for a sweep and a fraction for a pulse, so start each from its own default
+            onChange={(kind) => onChange({ ...selected, oscillation: kind, amplitude: kind === 'pulse' ? 0.5 : 30 })}
+          />
+          {selected.oscillation === 'sweep' && (
+            <SliderRow
+              label="SWING"
+              value={selected.amplitude}
+              min={0}
+              max={90}
+              step={5}
+              format={(v) => `±${v}°`}
+              onChange={(v) => update('amplitude', v)}
+            />
+          )}
+          {selected.oscillation === 'pulse' && (
+            <SliderRow
+              label="DEPTH"
+              value={selected.amplitude}
+              min={0}
+              max={1}
+              step={0.05}
+              format={(v) => `${Math.round(v * 100)}%`}
+              onChange={(v) => update('amplitude', v)}
+            />
+          )}
+          {selected.oscillation !== 'none' && (
+            <SliderRow
+              label="PERIOD"
+              value={selected.period}
+              min={0.25}
+              max={10}
+              step={0.25}
+              format={(v) => `${v} s`}
+              onChange={(v) => update('period', v)}
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { ExportFormat, ExportOptions } from '../types';
+import { EXPORT_FPS_OPTIONS, EXPORT_HEIGHT_OPTIONS, IMAGE_HEIGHT_OPTIONS } from '../constants';
+import { SliderRow } from './SettingsPanel';
+
+interface ExportDialogProps {
+  aspect: number; // Canvas width / height, output sizes keep it
+  onStart: (options: ExportOptions) => void;
+  onClose: () => void;
+}
+
+// Video encoders want even dimensions
+const even = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+
+const FORMATS: { value: ExportFormat; label: string; hint: string }[] = [
+  { value: 'webm', label: 'WebM', hint: 'Records the canvas live while you paint' },
+  { value: 'gif', label: 'GIF', hint: 'Renders the simulation forward frame by frame' },
+  { value: 'png', label: 'PNG', hint: 'Renders the current frame at print resolution' }
+];
+
+export const ExportDialog = ({ aspect, onStart, onClose }: ExportDialogProps) => {
+  const [format, setFormat] = useState<ExportFormat>('webm');
+  const [start, setStart] = useState(0);
+  const [duration, setDuration] = useState(5);
+  const [fps, setFps] = useState(30);
+  const [height, setHeight] = useState(480);
+  const [imageHeight, setImageHeight] = useState(2160);
+  const [transparent, setTransparent] = useState(false);
+
+  const isImage = format === 'png';
+  const outputHeight = isImage ? imageHeight : height;
+  const width = even(outputHeight * aspect);
+
+  return (
+    <div className="absolute top-24 right-6 w-72 bg-zinc-900/90 backdrop-blur-xl border border-zinc-800 p-5 rounded-2xl shadow-2xl z-20 space-y-3">
+      <div className="flex justify-between items-start">
+        <h2 className="text-zinc-300 text-xs font-bold tracking-widest uppercase">Export</h2>
+        <button onClick={onClose} className="text-gray-500 hover:text-white">
+          ✕
+        </button>
+      </div>
+
+      <div className="flex gap-2">
+        {FORMATS.map(option => (
+          <button
+            key={option.value}
+            onClick={() => setFormat(option.value)}
+            className={`flex-1 text-xs rounded-md py-1.5 border transition-colors ${format === option.value ? 'bg-white text-black border-white' : 'text-zinc-400 border-zinc-700 hover:text-white'}`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+      <p className="text-[10px] text-zinc-500">{FORMATS.find(option => option.value === format)?.hint}</p>
+
+      {format === 'gif' && (
+        <SliderRow
+          label="START AFTER"
+          value={start}
+          min={0}
+          max={10}
+          step={0.5}
+          format={(v) => `${v} s`}
+          onChange={setStart}
+        />
+      )}
+      {!isImage && (
+        <>
+          <SliderRow
+            label="DURATION"
+            value={duration}
+            min={1}
+            max={30}
+            step={1}
+            format={(v) => `${v} s`}
+            onChange={setDuration}
+          />
+
+          <div>
+            <div className="flex justify-between text-[9px] text-zinc-500 font-mono mb-1">
+              <span>FRAME RATE</span>
+            </div>
+            <select
+              value={fps}
+              onChange={(e) => setFps(parseInt(e.target.value))}
+              className="w-full bg-zinc-800 text-zinc-200 text-xs rounded-md px-2 py-1 border border-zinc-700"
+            >
+              {EXPORT_FPS_OPTIONS.map(rate => (
+                <option key={rate} value={rate}>
+                  {rate} fps
+                </option>
+              ))}
+            </select>
+          </div>
+        </>
+      )}
+
+      <div>
+        <div className="flex justify-between text-[9px] text-zinc-500 font-mono mb-1">
+          <span>OUTPUT SIZE</span>
+        </div>
+        {isImage ? (
+          <select
+            value={imageHeight}
+            onChange={(e) => setImageHeight(parseInt(e.target.value))}
+            className="w-full bg-zinc-800 text-zinc-200 text-xs rounded-md px-2 py-1 border border-zinc-700"
+          >
+            {IMAGE_HEIGHT_OPTIONS.map(option => (
+              <option key={option.height} value={option.height}>
+                {option.label} · {even(option.height * aspect)} × {option.height}
+              </option>
+            ))}
+          </select>
+        ) : (
+          <select
+            value={height}
+            onChange={(e) => setHeight(parseInt(e.target.value))}
+            className="w-full bg-zinc-800 text-zinc-200 text-xs rounded-md px-2 py-1 border border-zinc-700"
+          >
+            {EXPORT_HEIGHT_OPTIONS.map(h => (
+              <option key={h} value={h}>
+                {even(h * aspect)} × {h}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {isImage && (
+        <label className="flex items-center justify-between text-[9px] text-zinc-500 font-mono cursor-pointer">
+          <span>TRANSPARENT BACKGROUND</span>
+          <input
+            type="checkbox"
+            checked={transparent}
+            onChange={(e) => setTransparent(e.target.checked)}
+            className="accent-white"
+          />
+        </label>
+      )}
+
+      <button
+        onClick={() =>
+          onStart({
+            format,
+            start: format === 'gif' ? start : 0,
+            duration,
+            fps,
+            width,
+            height: outputHeight,
+            transparent: isImage && transparent
+          })
+        }
+        className="w-full text-[10px] uppercase tracking-widest text-white bg-zinc-700 hover:bg-zinc-600 rounded-md py-1.5 transition-colors"
+      >
+        {format === 'webm' ? 'Start Recording' : format === 'gif' ? 'Render GIF' : 'Render Image'}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { ANALYSIS_ERROR_TITLES, AnalysisError } from '../services/analysisErrors';
+
+export type PlanPhase = 'idle' | 'planning' | 'playing';
+
+interface PromptPanelProps {
+  phase: PlanPhase;
+  title: string | null; // The playing plan's
+  progress: number; // 0-1 while playing
+  error: AnalysisError | null;
+  onGenerate: (prompt: string) => void;
+  onStop: () => void; // Cancel the request or stop playing
+  onClose: () => void;
+}
+
+// Prompt to smoke: describe a piece, and the provider's plan is drawn onto the canvas
+export const PromptPanel = ({ phase, title, progress, error, onGenerate, onStop, onClose }: PromptPanelProps) => {
+  const [prompt, setPrompt] = useState('');
+  const generate = () => {
+    if (prompt.trim() && phase === 'idle') onGenerate(prompt.trim());
+  };
+
+  return (
+    <div className="absolute bottom-28 left-1/2 transform -translate-x-1/2 w-[28rem] max-w-[calc(100vw-3rem)] bg-zinc-900/90 backdrop-blur-xl border border-zinc-800 p-4 rounded-2xl shadow-2xl z-20 space-y-3">
+      <div className="flex justify-between items-start">
+        <h2 className="text-indigo-400 text-xs font-bold tracking-widest uppercase">Prompt to Smoke</h2>
+        <button onClick={onClose} className="text-gray-500 hover:text-white">
+          ✕
+        </button>
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          value={prompt}
+          onChange={(e) => setPrompt(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && generate()}
+          placeholder="A dragon curling upward"
+          disabled={phase !== 'idle'}
+          className="flex-1 min-w-0 bg-zinc-800 text-zinc-200 text-sm rounded-md px-3 py-1.5 border border-zinc-700 disabled:opacity-50"
+        />
+        {phase === 'idle' ? (
+          <button
+            onClick={generate}
+            disabled={!prompt.trim()}
+            className="text-xs px-3 rounded-md bg-indigo-600/20 text-indigo-300 border border-indigo-500/30 hover:bg-indigo-600 hover:text-white disabled:opacity-30 transition-colors"
+          >
+            Generate
+          </button>
+        ) : (
+          <button
+            onClick={onStop}
+            className="text-xs px-3 rounded-md text-red-300 border border-red-500/30 hover:bg-red-900/30 transition-colors"
+          >
+            Stop
+          </button>
+        )}
+      </div>
+
+      {phase === 'planning' && <p className="text-xs text-zinc-500 animate-pulse">Planning strokes...</p>}
+      {phase === 'playing' && (
+        <div className="space-y-1">
+          <p className="text-xs text-zinc-300 font-serif italic truncate">Drawing "{title}"</p>
+          <div className="h-1 bg-zinc-800 rounded-full overflow-hidden">
+            <div className="h-full bg-indigo-400 transition-all" style={{ width: `${Math.round(progress * 100)}%` }} />
+          </div>
+        </div>
+      )}
+      {phase === 'idle' && error && (
+        <div>
+          <p className="text-xs text-red-400 font-medium">{ANALYSIS_ERROR_TITLES[error.kind]}</p>
+          <p className="text-xs text-zinc-400">{error.message}</p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,496 @@
+import React, { useState } from 'react';
+import { SimulationConfig, SolverBackendKind, RenderSettings, ColormapName, OverlaySettings, BoundaryConditions, EdgeKind, BrushTool, BrushTuning, AnalysisSettings, AnalysisProviderKind } from '../types';
+import { DEFAULT_CONFIG, RESOLUTION_OPTIONS, DYE_RESOLUTION_OPTIONS, BRUSH_LIMITS } from '../constants';
+import { renderStyles, getRenderStyle } from '../utils/renderStyles';
+import { COLORMAPS } from '../utils/colormaps';
+import { EDGES, EDGE_KINDS, OPPOSITE_EDGE } from '../utils/boundaries';
+import { BRUSH_TOOLS } from '../utils/brush';
+import { ANALYSIS_PROVIDERS, getAnalysisProviderInfo, MAX_ANALYSIS_FRAMES, FRAME_INTERVAL_RANGE } from '../services/analysis';
+
+interface SettingsPanelProps {
+  config: SimulationConfig;
+  backend: SolverBackendKind;
+  historyBytes: number; // Memory currently held by undo snapshots
+  render: RenderSettings;
+  onChange: (config: SimulationConfig) => void;
+  onRenderChange: (render: RenderSettings) => void;
+  onWindTunnel: () => void; // Apply the wind tunnel preset
+  brushTuning: Record<BrushTool, BrushTuning>;
+  onBrushTuningChange: (tuning: Record<BrushTool, BrushTuning>) => void;
+  analysis: AnalysisSettings;
+  onAnalysisChange: (analysis: AnalysisSettings) => void;
+  onClose: () => void;
+}
+
+interface SliderRowProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  format?: (value: number) => string;
+  onChange: (value: number) => void;
+}
+
+export const SliderRow = ({ label, value, min, max, step, format, onChange }: SliderRowProps) => (
+  <div>
+    <div className="flex justify-between text-[9px] text-zinc-500 font-mono mb-1">
+      <span>{label}</span>
+      <span>{format ? format(value) : value}</span>
+    </div>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={(e) => onChange(parseFloat(e.target.value))}
+      className="w-full h-1 bg-zinc-700 rounded-lg appearance-none cursor-pointer accent-white"
+    />
+  </div>
+);
+
+const ToggleRow = ({ label, checked, onChange }: { label: string; checked: boolean; onChange: (checked: boolean) => void }) => (
+  <label className="flex items-center justify-between text-[9px] text-zinc-500 font-mono cursor-pointer">
+    <span>{label}</span>
+    <input type="checkbox" checked={checked} onChange={(e) => onChange(e.target.checked)} className="accent-white" />
+  </label>
+);
+
+const TextRow = ({ label, value, type = 'text', placeholder, onChange }: { label: string; value: string; type?: string; placeholder?: string; onChange: (value: string) => void }) => (
+  <label className="block">
+    <span className="block text-[9px] text-zinc-500 font-mono mb-1">{label}</span>
+    <input
+      type={type}
+      value={value}
+      placeholder={placeholder}
+      onChange={(e) => onChange(e.target.value)}
+      autoComplete="off"
+      className="w-full bg-zinc-800 text-zinc-200 text-xs rounded-md px-2 py-1 border border-zinc-700"
+    />
+  </label>
+);
+
+const Section = ({ title, children }: { title: string; children: React.ReactNode }) => {
+  const [open, setOpen] = useState(true);
+  return (
+    <div className="border-t border-zinc-800 pt-3">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex justify-between items-center text-[10px] uppercase tracking-widest text-zinc-400 hover:text-white mb-2"
+      >
+        <span>{title}</span>
+        <span>{open ? '−' : '+'}</span>
+      </button>
+      {open && <div className="space-y-3">{children}</div>}
+    </div>
+  );
+};
+
+const scientific = (value: number) => (value === 0 ? '0' : value.toExponential(1));
+
+const COLORMAP_NAMES = [...Object.keys(COLORMAPS), 'custom'] as ColormapName[];
+const MAX_CUSTOM_STOPS = 6;
+
+// Live editor for the running simulation's SimulationConfig
+export const SettingsPanel = ({
+  config,
+  backend,
+  historyBytes,
+  render,
+  onChange,
+  onRenderChange,
+  onWindTunnel,
+  brushTuning,
+  onBrushTuningChange,
+  analysis,
+  onAnalysisChange,
+  onClose
+}: SettingsPanelProps) => {
+  const update = <K extends keyof SimulationConfig>(key: K, value: SimulationConfig[K]) => {
+    onChange({ ...config, [key]: value });
+  };
+  const style = getRenderStyle(render.style);
+  const updateOverlay = <K extends keyof OverlaySettings>(key: K, value: OverlaySettings[K]) => {
+    onRenderChange({ ...render, overlays: { ...render.overlays, [key]: value } });
+  };
+  // Periodic edges come in pairs, so switching one to or from periodic switches its opposite edge too
+  const setEdgeKind = (edge: keyof BoundaryConditions, kind: EdgeKind) => {
+    const boundaries = { ...config.boundaries, [edge]: { ...config.boundaries[edge], kind } };
+    const opposite = OPPOSITE_EDGE[edge];
+    if (kind === 'periodic') {
+      boundaries[opposite] = { ...boundaries[opposite], kind };
+    } else if (config.boundaries[edge].kind === 'periodic') {
+      boundaries[opposite] = { ...boundaries[opposite], kind: 'wall' };
+    }
+    update('boundaries', boundaries);
+  };
+  const setInflowSpeed = (edge: keyof BoundaryConditions, speed: number) => {
+    update('boundaries', { ...config.boundaries, [edge]: { ...config.boundaries[edge], speed } });
+  };
+  const updateAnalysis = <K extends keyof AnalysisSettings>(key: K, value: AnalysisSettings[K]) => {
+    onAnalysisChange({ ...analysis, [key]: value });
+  };
+  const updateTuning = (tool: BrushTool, key: keyof BrushTuning, value: number) => {
+    onBrushTuningChange({ ...brushTuning, [tool]: { ...brushTuning[tool], [key]: value } });
+  };
+
+  return (
+    <div className="absolute top-24 left-6 w-72 max-h-[calc(100vh-12rem)] overflow-y-auto bg-zinc-900/90 backdrop-blur-xl border border-zinc-800 p-5 rounded-2xl shadow-2xl z-20 space-y-3">
+      <div className="flex justify-between items-start">
+        <h2 className="text-zinc-300 text-xs font-bold tracking-widest uppercase">Simulation</h2>
+        <button onClick={onClose} className="text-gray-500 hover:text-white">
+          ✕
+        </button>
+      </div>
+
+      <Section title="Fluid">
+        <SliderRow
+          label="VISCOSITY"
+          value={config.viscosity}
+          min={0}
+          max={0.0005}
+          step={0.000005}
+          format={scientific}
+          onChange={(v) => update('viscosity', v)}
+        />
+        <SliderRow
+          label="DIFFUSION"
+          value={config.diffusion}
+          min={0}
+          max={0.0005}
+          step={0.000005}
+          format={scientific}
+          onChange={(v) => update('diffusion', v)}
+        />
+        <SliderRow
+          label="FADE"
+          value={config.fadeRate}
+          min={0}
+          max={0.05}
+          step={0.001}
+          onChange={(v) => update('fadeRate', v)}
+        />
+      </Section>
+
+      <Section title="Forces">
+        <SliderRow
+          label="VORTICITY"
+          value={config.vorticity}
+          min={0}
+          max={10}
+          step={0.1}
+          onChange={(v) => update('vorticity', v)}
+        />
+        <SliderRow
+          label="BUOYANCY"
+          value={config.buoyancy}
+          min={0}
+          max={2}
+          step={0.05}
+          onChange={(v) => update('buoyancy', v)}
+        />
+        <SliderRow
+          label="COOLING"
+          value={config.coolingRate}
+          min={0}
+          max={0.1}
+          step={0.005}
+          onChange={(v) => update('coolingRate', v)}
+        />
+      </Section>
+
+      <Section title="Boundaries">
+        {EDGES.map(edge => (
+          <div key={edge} className="space-y-2">
+            <div className="flex items-center justify-between gap-3">
+              <span className="text-[9px] text-zinc-500 font-mono uppercase">{edge}</span>
+              <select
+                value={config.boundaries[edge].kind}
+                onChange={(e) => setEdgeKind(edge, e.target.value as EdgeKind)}
+                className="w-36 bg-zinc-800 text-zinc-200 text-xs rounded-md px-2 py-1 border border-zinc-700"
+              >
+                {EDGE_KINDS.map(option => (
+                  <option key={option.kind} value={option.kind}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {config.boundaries[edge].kind === 'inflow' && (
+              <SliderRow
+                label="INFLOW SPEED"
+                value={config.boundaries[edge].speed}
+                min={0}
+                max={0.5}
+                step={0.01}
+                onChange={(v) => setInflowSpeed(edge, v)}
+              />
+            )}
+          </div>
+        ))}
+        <button
+          onClick={onWindTunnel}
+          className="w-full text-[10px] uppercase tracking-widest text-zinc-400 hover:text-white border border-zinc-700 hover:border-zinc-500 rounded-md py-1.5 transition-colors"
+          title="Inflow on the left, outflow on the right and smoke streaks at the inlet"
+        >
+          Wind Tunnel
+        </button>
+      </Section>
+
+      <Section title="Brush">
+        {BRUSH_TOOLS.map(({ mode, label }) => (
+          <div key={mode} className="space-y-2">
+            <span className="text-[9px] text-zinc-500 font-mono uppercase">{label}</span>
+            <SliderRow
+              label="FORCE"
+              value={brushTuning[mode].force}
+              min={BRUSH_LIMITS.force.min}
+              max={BRUSH_LIMITS.force.max}
+              step={0.5}
+              onChange={(v) => updateTuning(mode, 'force', v)}
+            />
+            <SliderRow
+              label="SOFTNESS"
+              value={brushTuning[mode].falloff}
+              min={BRUSH_LIMITS.falloff.min}
+              max={BRUSH_LIMITS.falloff.max}
+              step={0.05}
+              format={(v) => `${Math.round(v * 100)}%`}
+              onChange={(v) => updateTuning(mode, 'falloff', v)}
+            />
+          </div>
+        ))}
+      </Section>
+
+      <Section title="Analysis">
+        <div className="flex items-center justify-between gap-3">
+          <span className="text-[9px] text-zinc-500 font-mono">PROVIDER</span>
+          <select
+            value={analysis.provider}
+            onChange={(e) => updateAnalysis('provider', e.target.value as AnalysisProviderKind)}
+            className="w-40 bg-zinc-800 text-zinc-200 text-xs rounded-md px-2 py-1 border border-zinc-700"
+          >
+            {ANALYSIS_PROVIDERS.map(option => (
+              <option key={option.kind} value={option.kind}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        {analysis.provider === 'offline' ? (
+          <p className="text-[10px] text-zinc-500">Reads colour, coverage and shape straight from the canvas. No key or network needed.</p>
+        ) : (
+          <>
+            {analysis.provider === 'openai' && (
+              <TextRow label="ENDPOINT" value={analysis.endpoint} onChange={(v) => updateAnalysis('endpoint', v)} />
+            )}
+            <TextRow
+              label="MODEL"
+              value={analysis.model}
+              placeholder={getAnalysisProviderInfo(analysis.provider).defaultModel}
+              onChange={(v) => updateAnalysis('model', v)}
+            />
+            <TextRow
+              label="API KEY"
+              value={analysis.apiKey}
+              type="password"
+              placeholder={analysis.provider === 'openai' ? 'Optional for local servers' : 'Uses the built-in key if blank'}
+              onChange={(v) => updateAnalysis('apiKey', v)}
+            />
+            <p className="text-[10px] text-zinc-500">The key is kept in this browser's local storage.</p>
+          </>
+        )}
+        <SliderRow
+          label="FRAMES"
+          value={analysis.frames}
+          min={1}
+          max={MAX_ANALYSIS_FRAMES}
+          step={1}
+          onChange={(v) => updateAnalysis('frames', v)}
+        />
+        {analysis.frames > 1 && (
+          <SliderRow
+            label="FRAME INTERVAL"
+            value={analysis.frameInterval}
+            min={FRAME_INTERVAL_RANGE.min}
+            max={FRAME_INTERVAL_RANGE.max}
+            step={0.25}
+            format={(v) => `${v.toFixed(2)}s`}
+            onChange={(v) => updateAnalysis('frameInterval', v)}
+          />
+        )}
+      </Section>
+
+      <Section title="Quality">
+        <SliderRow
+          label="ITERATIONS"
+          value={config.iterations}
+          min={1}
+          max={40}
+          step={1}
+          onChange={(v) => update('iterations', v)}
+        />
+        <div>
+          <div className="flex justify-between text-[9px] text-zinc-500 font-mono mb-1">
+            <span>RESOLUTION</span>
+            <span>{backend === 'webgl2' ? 'GPU' : 'CPU'}</span>
+          </div>
+          <select
+            value={config.resolution}
+            onChange={(e) => update('resolution', parseInt(e.target.value))}
+            className="w-full bg-zinc-800 text-zinc-200 text-xs rounded-md px-2 py-1 border border-zinc-700"
+          >
+            {RESOLUTION_OPTIONS[backend].map(size => (
+              <option key={size} value={size}>
+                {size} cells
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <div className="flex justify-between text-[9px] text-zinc-500 font-mono mb-1">
+            <span>DYE RESOLUTION</span>
+          </div>
+          <select
+            value={config.dyeRes}
+            onChange={(e) => update('dyeRes', parseInt(e.target.value))}
+            className="w-full bg-zinc-800 text-zinc-200 text-xs rounded-md px-2 py-1 border border-zinc-700"
+          >
+            {DYE_RESOLUTION_OPTIONS[backend].map(size => (
+              <option key={size} value={size}>
+                {size} cells
+              </option>
+            ))}
+          </select>
+        </div>
+      </Section>
+
+      <Section title="Display">
+        <div>
+          <div className="flex justify-between text-[9px] text-zinc-500 font-mono mb-1">
+            <span>RENDER STYLE</span>
+          </div>
+          <select
+            value={style.id}
+            onChange={(e) => onRenderChange({ ...render, style: e.target.value })}
+            className="w-full bg-zinc-800 text-zinc-200 text-xs rounded-md px-2 py-1 border border-zinc-700"
+          >
+            {renderStyles().map(option => (
+              <option key={option.id} value={option.id}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        {style.usesColormap && (
+          <div>
+            <div className="flex justify-between text-[9px] text-zinc-500 font-mono mb-1">
+              <span>COLORMAP</span>
+            </div>
+            <select
+              value={render.colormap}
+              onChange={(e) => onRenderChange({ ...render, colormap: e.target.value as ColormapName })}
+              className="w-full bg-zinc-800 text-zinc-200 text-xs rounded-md px-2 py-1 border border-zinc-700 capitalize"
+            >
+              {COLORMAP_NAMES.map(name => (
+                <option key={name} value={name}>
+                  {name}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+        {style.usesColormap && render.colormap === 'custom' && (
+          <div className="flex items-center justify-between">
+            <span className="text-[9px] text-zinc-500 font-mono">STOPS</span>
+            <div className="flex gap-2">
+              {render.customStops.map((stop, i) => (
+                <label
+                  key={i}
+                  className="relative w-6 h-6 rounded-full border-2 border-zinc-600 hover:border-white transition-colors cursor-pointer overflow-hidden"
+                  style={{ backgroundColor: stop }}
+                >
+                  <input
+                    type="color"
+                    value={stop}
+                    onChange={(e) =>
+                      onRenderChange({ ...render, customStops: render.customStops.map((s, j) => (j === i ? e.target.value : s)) })
+                    }
+                    className="absolute inset-0 opacity-0 cursor-pointer"
+                  />
+                </label>
+              ))}
+              <button
+                onClick={() => onRenderChange({ ...render, customStops: render.customStops.slice(0, -1) })}
+                disabled={render.customStops.length <= 2}
+                className="text-zinc-500 hover:text-white disabled:opacity-30 text-xs w-4"
+                title="Remove Stop"
+              >
+                −
+              </button>
+              <button
+                onClick={() => onRenderChange({ ...render, customStops: [...render.customStops, '#ffffff'] })}
+                disabled={render.customStops.length >= MAX_CUSTOM_STOPS}
+                className="text-zinc-500 hover:text-white disabled:opacity-30 text-xs w-4"
+                title="Add Stop"
+              >
+                +
+              </button>
+            </div>
+          </div>
+        )}
+      </Section>
+
+      <Section title="Overlays">
+        <ToggleRow label="VELOCITY ARROWS" checked={render.overlays.arrows} onChange={(v) => updateOverlay('arrows', v)} />
+        <ToggleRow label="STREAMLINES" checked={render.overlays.streamlines} onChange={(v) => updateOverlay('streamlines', v)} />
+        <ToggleRow label="TRACER PARTICLES" checked={render.overlays.particles} onChange={(v) => updateOverlay('particles', v)} />
+        {render.overlays.particles && (
+          <>
+            <SliderRow
+              label="PARTICLES"
+              value={render.overlays.particleCount}
+              min={100}
+              max={20000}
+              step={100}
+              onChange={(v) => updateOverlay('particleCount', v)}
+            />
+            <SliderRow
+              label="LIFETIME"
+              value={render.overlays.particleLifetime}
+              min={0.5}
+              max={20}
+              step={0.5}
+              format={(v) => `${v} s`}
+              onChange={(v) => updateOverlay('particleLifetime', v)}
+            />
+          </>
+        )}
+      </Section>
+
+      <Section title="History">
+        <SliderRow
+          label="UNDO MEMORY"
+          value={config.historyLimitMB}
+          min={8}
+          max={512}
+          step={8}
+          format={(v) => `${v} MB`}
+          onChange={(v) => update('historyLimitMB', v)}
+        />
+        <div className="flex justify-between text-[9px] text-zinc-500 font-mono">
+          <span>IN USE</span>
+          <span>{(historyBytes / (1024 * 1024)).toFixed(1)} MB</span>
+        </div>
+      </Section>
+
+      <button
+        onClick={() => onChange({ ...DEFAULT_CONFIG, resolution: config.resolution, dyeRes: config.dyeRes })}
+        className="w-full text-[10px] uppercase tracking-widest text-zinc-500 hover:text-white border border-zinc-800 hover:border-zinc-600 rounded-md py-1.5 transition-colors"
+      >
+        Reset to Defaults
+      </button>
+    </div>
+  );
+};
@@ -1,14 +1,96 @@
 
-import { SimulationConfig } from './types';
+import { SimulationConfig, RGBColor, SolverBackendKind, RenderSettings, BrushTool, BrushTuning, ToolMode } from './types';
 
 export const DEFAULT_CONFIG: SimulationConfig = {
-  resolution: 128, // Grid size (N x N)
+  resolution: 128, // Velocity grid cells across the shorter side; the longer side follows the aspect ratio
   viscosity: 0.00001, // Fluid thickness
   diffusion: 0.0, // Set to 0 to keep smoke crisp and prevent "thinning out" invisibility
   fadeRate: 0, // Set to 0 so smoke stays indefinitely
   iterations: 10, // Solver steps
-  dyeRes: 256 // Render resolution
+  dyeRes: 256, // Dye grid size, smoke detail is independent of the velocity grid
+  vorticity: 0, // Off by default, try 2-8 for curlier smoke
+  buoyancy: 0, // Off by default, try 0.5 for rising smoke
+  coolingRate: 0.01, // Heat lost per step
+  historyLimitMB: 64, // Undo snapshots are dropped oldest-first beyond this
+  // Closed box
+  boundaries: {
+    left: { kind: 'wall', speed: 0.1 },
+    right: { kind: 'wall', speed: 0.1 },
+    top: { kind: 'wall', speed: 0.1 },
+    bottom: { kind: 'wall', speed: 0.1 }
+  }
+};
+
+// Simulation time per step
+export const TIMESTEP = 0.1;
+
+// Grid size used when the WebGL2 solver is available
+export const GPU_RESOLUTION = 512;
+export const GPU_DYE_RESOLUTION = 512;
+
+// Grid sizes offered in the settings panel, per backend
+export const RESOLUTION_OPTIONS: Record<SolverBackendKind, number[]> = {
+  cpu: [64, 96, 128, 192, 256],
+  webgl2: [128, 256, 512, 768, 1024]
+};
+
+// Dye grid sizes offered in the settings panel, per backend
+export const DYE_RESOLUTION_OPTIONS: Record<SolverBackendKind, number[]> = {
+  cpu: [128, 192, 256, 384, 512],
+  webgl2: [256, 512, 768, 1024]
+};
+
+// Every grid size either backend offers; files asking for anything outside these are rejected or reset
+export const RESOLUTION_RANGE = { min: Math.min(...RESOLUTION_OPTIONS.cpu), max: Math.max(...RESOLUTION_OPTIONS.webgl2) };
+export const DYE_RESOLUTION_RANGE = { min: Math.min(...DYE_RESOLUTION_OPTIONS.cpu), max: Math.max(...DYE_RESOLUTION_OPTIONS.webgl2) };
+
+// Simulation steps per second of exported animation; the live view steps once per display frame
+export const STEPS_PER_SECOND = 60;
+
+// Choices offered in the export dialog
+export const EXPORT_FPS_OPTIONS = [10, 15, 24, 30, 60];
+export const EXPORT_HEIGHT_OPTIONS = [360, 480, 720, 1080];
+// Still images are rendered offline from the dye field, so they can go far beyond the screen
+export const IMAGE_HEIGHT_OPTIONS: { height: number; label: string }[] = [
+  { height: 1080, label: 'HD' },
+  { height: 1440, label: 'QHD' },
+  { height: 2160, label: '4K' },
+  { height: 4320, label: '8K' }
+];
+
+// How often the session is written to IndexedDB while something changed
+export const AUTOSAVE_INTERVAL_MS = 10000;
+
+export const DEFAULT_RENDER_SETTINGS: RenderSettings = {
+  style: 'smoke',
+  colormap: 'fire',
+  customStops: ['#000000', '#7c3aed', '#f0abfc'],
+  overlays: {
+    arrows: false,
+    streamlines: false,
+    particles: false,
+    particleCount: 2000,
+    particleLifetime: 4
+  }
 };
 
 export const CANVAS_BG_COLOR = '#000000';
-export const SMOKE_COLOR = { r: 255, g: 255, b: 255 };
+
+// What the brush controls allow; brushes read from files and storage are clamped to the same ranges
+export const BRUSH_LIMITS = {
+  size: { min: 1, max: 20 },
+  density: { min: 0.1, max: 3 },
+  force: { min: 0, max: 20 },
+  falloff: { min: 0, max: 1 },
+  jitter: { min: 0, max: 1 }
+};
+
+// Force 5 with a hard edge is the original brush
+export const DEFAULT_BRUSH_TUNING: Record<BrushTool, BrushTuning> = {
+  [ToolMode.SMOKE]: { force: 5, falloff: 0.6 },
+  [ToolMode.WIND]: { force: 5, falloff: 0.6 },
+  [ToolMode.ERASER]: { force: 5, falloff: 0 }
+};
+
+export const SMOKE_COLOR: RGBColor = { r: 255, g: 255, b: 255 };
+export const OBSTACLE_COLOR: RGBColor = { r: 82, g: 82, b: 91 };
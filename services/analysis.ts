@@ -0,0 +1,139 @@
+import { AnalysisProvider, AnalysisProviderKind, AnalysisSettings, GeminiAnalysisResult, PlanProvider, SmokePlan } from '../types';
+import { createGeminiProvider, createGeminiPlanProvider, BUILD_API_KEY, GEMINI_DEFAULT_MODEL } from './geminiService';
+import {
+  createOpenAICompatibleProvider,
+  createOpenAICompatiblePlanProvider,
+  OPENAI_DEFAULT_ENDPOINT,
+  OPENAI_DEFAULT_MODEL
+} from './openAICompatibleService';
+import { createOfflineProvider } from './offlineAnalysis';
+import { createMockPlanProvider, OFFLINE_PLANS } from './mockPlanProvider';
+import { AnalysisError } from './analysisErrors';
+
+const STORAGE_KEY = 'aerograph.analysisSettings';
+const MAX_ATTEMPTS = 3;
+const BASE_BACKOFF_MS = 1000;
+// Per attempt; vision models on a local server can be slow to answer
+const ATTEMPT_TIMEOUT_MS = 45000;
+
+export const MAX_ANALYSIS_FRAMES = 6;
+export const FRAME_INTERVAL_RANGE = { min: 0.25, max: 2 };
+
+export const ANALYSIS_PROVIDERS: { kind: AnalysisProviderKind; label: string; action: string; defaultModel: string }[] = [
+  { kind: 'gemini', label: 'Gemini', action: 'Ask Gemini', defaultModel: GEMINI_DEFAULT_MODEL },
+  { kind: 'openai', label: 'OpenAI-compatible', action: 'Ask AI', defaultModel: OPENAI_DEFAULT_MODEL },
+  { kind: 'offline', label: 'Offline', action: 'Analyze', defaultModel: '' }
+];
+
+export const getAnalysisProviderInfo = (kind: AnalysisProviderKind) =>
+  ANALYSIS_PROVIDERS.find(p => p.kind === kind) ?? ANALYSIS_PROVIDERS[0];
+
+// Without a key baked into the build, start on the offline provider so the first analysis works
+export const DEFAULT_ANALYSIS_SETTINGS: AnalysisSettings = {
+  provider: BUILD_API_KEY ? 'gemini' : 'offline',
+  apiKey: '',
+  model: '',
+  endpoint: OPENAI_DEFAULT_ENDPOINT,
+  frames: 1,
+  frameInterval: 0.5
+};
+
+export const createAnalysisProvider = (settings: AnalysisSettings): AnalysisProvider => {
+  switch (settings.provider) {
+    case 'gemini':
+      return createGeminiProvider(settings.apiKey, settings.model);
+    case 'openai':
+      return createOpenAICompatibleProvider(settings.endpoint, settings.apiKey, settings.model);
+    case 'offline':
+      return createOfflineProvider();
+  }
+};
+
+// Resolves after `ms`, or rejects with the signal's reason as soon as it aborts
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    signal?.throwIfAborted();
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Plans come from the same provider and model as critiques; offline, the built-in plans stand in
+export const createPlanProvider = (settings: AnalysisSettings): PlanProvider => {
+  switch (settings.provider) {
+    case 'gemini':
+      return createGeminiPlanProvider(settings.apiKey, settings.model);
+    case 'openai':
+      return createOpenAICompatiblePlanProvider(settings.endpoint, settings.apiKey, settings.model);
+    case 'offline':
+      return createMockPlanProvider(OFFLINE_PLANS);
+  }
+};
+
+// Run a provider request. Transient failures (rate limits, network trouble, a garbled reply) are retried
+// with exponential backoff; everything else fails at once with an AnalysisError. Aborting the signal
+// rejects with its reason.
+const withRetries = async <T>(request: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    // Each attempt gets its own deadline; the caller's signal still cancels everything
+    const deadline = AbortSignal.timeout(ATTEMPT_TIMEOUT_MS);
+    try {
+      return await request(signal ? AbortSignal.any([signal, deadline]) : deadline);
+    } catch (error) {
+      signal?.throwIfAborted();
+      let failure: AnalysisError;
+      if (deadline.aborted) failure = new AnalysisError('network', 'The provider took too long to answer.', true);
+      else if (error instanceof AnalysisError) failure = error;
+      else failure = new AnalysisError('server', error instanceof Error ? error.message : 'Analysis failed.');
+
+      if (!failure.retryable || attempt >= MAX_ATTEMPTS) throw failure;
+      // Honour the server's Retry-After; otherwise 1 s, 2 s, ... with some jitter so clients don't retry in step
+      await wait(failure.retryAfterMs ?? BASE_BACKOFF_MS * 2 ** (attempt - 1) * (0.75 + Math.random() * 0.5), signal);
+    }
+  }
+};
+
+// Critique captured frames of the canvas, oldest first, with whichever provider the settings pick
+export const analyzeSmokeArt = (frames: string[], settings: AnalysisSettings, signal?: AbortSignal): Promise<GeminiAnalysisResult> => {
+  const provider = createAnalysisProvider(settings);
+  return withRetries(attemptSignal => provider.analyze(frames, settings.frameInterval, attemptSignal), signal);
+};
+
+// Ask the settings' provider for strokes and emitters that draw the prompt; the plan comes back validated
+export const generateSmokePlan = (prompt: string, settings: AnalysisSettings, signal?: AbortSignal): Promise<SmokePlan> => {
+  const provider = createPlanProvider(settings);
+  return withRetries(attemptSignal => provider.plan(prompt, attemptSignal), signal);
+};
+
+// Storage can be unavailable or hold settings from an older version; fill in what's missing
+export const loadAnalysisSettings = (): AnalysisSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    const settings = { ...DEFAULT_ANALYSIS_SETTINGS };
+    if (ANALYSIS_PROVIDERS.some(p => p.kind === stored.provider)) settings.provider = stored.provider;
+    if (typeof stored.apiKey === 'string') settings.apiKey = stored.apiKey;
+    if (typeof stored.model === 'string') settings.model = stored.model;
+    if (typeof stored.endpoint === 'string') settings.endpoint = stored.endpoint;
+    if (Number.isInteger(stored.frames)) settings.frames = Math.min(MAX_ANALYSIS_FRAMES, Math.max(1, stored.frames));
+    if (typeof stored.frameInterval === 'number' && isFinite(stored.frameInterval)) {
+      settings.frameInterval = Math.min(FRAME_INTERVAL_RANGE.max, Math.max(FRAME_INTERVAL_RANGE.min, stored.frameInterval));
+    }
+    return settings;
+  } catch {
+    return DEFAULT_ANALYSIS_SETTINGS;
+  }
+};
+
+export const saveAnalysisSettings = (settings: AnalysisSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.warn('Could not save analysis settings', err);
+  }
+};
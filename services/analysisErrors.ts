@@ -0,0 +1,43 @@
+import { AnalysisErrorKind } from '../types';
+
+// Every way an analysis can fail, sorted so the UI can say what actually went wrong.
+// `retryable` marks the transient ones analyzeSmokeArt tries again after a backoff.
+export class AnalysisError extends Error {
+  constructor(
+    readonly kind: AnalysisErrorKind,
+    message: string,
+    readonly retryable = false,
+    readonly retryAfterMs?: number // From the server's Retry-After, when it sent one
+  ) {
+    super(message);
+    this.name = 'AnalysisError';
+  }
+}
+
+// Headings for the error card
+export const ANALYSIS_ERROR_TITLES: Record<AnalysisErrorKind, string> = {
+  'missing-key': 'API Key Needed',
+  'rate-limit': 'Rate Limited',
+  network: 'Connection Error',
+  malformed: 'Unreadable Reply',
+  server: 'Provider Error'
+};
+
+// Sort a failed HTTP response from a model server
+export const httpError = (status: number, retryAfter?: string | null): AnalysisError => {
+  if (status === 401 || status === 403) {
+    return new AnalysisError('missing-key', 'The API key was rejected. Check it in Settings → Analysis.');
+  }
+  if (status === 429) {
+    const seconds = Number(retryAfter);
+    return new AnalysisError('rate-limit', 'Rate limited by the provider. Wait a moment and try again.', true, isFinite(seconds) && seconds > 0 ? seconds * 1000 : undefined);
+  }
+  if (status >= 500) {
+    return new AnalysisError('server', `The provider had a problem (${status}). Try again shortly.`, true);
+  }
+  return new AnalysisError('server', `The provider refused the request (${status}).`);
+};
+
+// fetch rejects with a TypeError when the server can't be reached at all
+export const networkError = () =>
+  new AnalysisError('network', 'Could not reach the provider. Check the connection or the endpoint.', true);
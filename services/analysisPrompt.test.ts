@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisError } from './analysisErrors';
+import { parseAnalysisResponse, parseCritiqueDetails, parsePlanResponse } from './analysisPrompt';
+
+const critique = {
+  title: 'Ember Drift',
+  description: 'A warm column of smoke leaning left.',
+  mood: 'calm',
+  motion: 'rising and curling to the left',
+  shapes: [{ label: 'a bird', region: { x: 0.25, y: 0.125, width: 0.5, height: 0.25 } }],
+  palette: ['#ff8800', '#222222'],
+  suggestions: [{ description: 'Add a counter-swirl', path: [{ x: 0.6, y: 0.8 }, { x: 0.7, y: 0.5 }] }]
+};
+
+describe('critique replies', () => {
+  it('reads a complete reply, with or without a Markdown fence', () => {
+    expect(parseAnalysisResponse(JSON.stringify(critique))).toEqual(critique);
+    expect(parseAnalysisResponse('```json\n' + JSON.stringify(critique) + '\n```')).toEqual(critique);
+  });
+
+  it('rejects replies that are empty, not JSON or missing a required field', () => {
+    for (const text of [undefined, '', 'The smoke is lovely.', JSON.stringify({ ...critique, mood: 42 }), JSON.stringify({ ...critique, title: '  ' })]) {
+      expect(() => parseAnalysisResponse(text)).toThrow(AnalysisError);
+    }
+  });
+
+  it('drops structured entries that do not fit and clamps the rest', () => {
+    const details = parseCritiqueDetails({
+      motion: 7,
+      shapes: [
+        { label: 'a cloud', region: { x: 0.8, y: -0.2, width: 0.5, height: 0.5 } },
+        { label: 'nothing', region: { x: 2, y: 2, width: 1, height: 1 } },
+        { label: '', region: { x: 0, y: 0, width: 1, height: 1 } },
+        'a fish'
+      ],
+      palette: ['#ABCDEF', 'red', 12],
+      suggestions: [{ description: 'Sweep right', path: [{ x: 1.5, y: 0.5 }, 'here'] }, { path: [] }]
+    });
+    expect(details).toEqual({
+      motion: '',
+      shapes: [{ label: 'a cloud', region: { x: 0.8, y: 0, width: expect.closeTo(0.2), height: 0.3 } }],
+      palette: ['#abcdef'],
+      suggestions: [{ description: 'Sweep right', path: [{ x: 1, y: 0.5 }] }]
+    });
+  });
+
+  it('fills in the details of entries saved before they existed', () => {
+    expect(parseCritiqueDetails(undefined)).toEqual({ motion: '', shapes: [], palette: [], suggestions: [] });
+  });
+});
+
+describe('plan replies', () => {
+  it('reports an unplayable plan as a malformed reply', () => {
+    expect(() => parsePlanResponse(JSON.stringify({ title: 'Nothing', strokes: [] }))).toThrow(AnalysisError);
+  });
+});
@@ -0,0 +1,138 @@
+import { DetectedShape, GeminiAnalysisResult, SmokePlan, SuggestedStroke } from '../types';
+import { AnalysisError } from './analysisErrors';
+import { parseSmokePlan } from '../utils/smokePlan';
+import { isNumber, isRecord } from '../utils/validate';
+
+// The critique every model-backed provider is asked for, so they answer in the same voice and shape
+export const analysisPrompt = (frames: number, interval: number) => `
+    You are an art critic specializing in abstract fluid dynamics and ephemeral art.
+    ${frames > 1
+      ? `Analyze these ${frames} frames of a generated smoke animation, given oldest first and ${interval} seconds apart.`
+      : 'Analyze this generated smoke image.'}
+
+    1. Give it a short, poetic title.
+    2. Describe the shapes, movement, and pareidolia (what objects it resembles, e.g., a dragon, a cloud, a dancer).
+    3. Describe the mood (e.g., ethereal, turbulent, calm).
+    4. In "motion", describe the dominant movement in under 15 words${frames > 1 ? ', comparing the frames' : ''}.
+    5. In "shapes", list up to 6 things it resembles, each with the region it covers in the last frame.
+    6. In "palette", list up to 6 prominent colors as #rrggbb, most prominent first.
+    7. In "suggestions", propose up to 3 strokes to draw next, each with a path of 2-8 points.
+
+    Regions and points are fractions of the canvas: x from 0 (left) to 1 (right), y from 0 (top) to 1 (bottom).
+    Keep the description under 50 words.
+  `;
+
+// Remove header if present (data:image/png;base64,)
+export const stripDataUrl = (dataUrl: string) => dataUrl.replace(/^data:image\/\w+;base64,/, "");
+
+const MAX_FIELD_LENGTH = 2000;
+
+// What a prompt-to-smoke request asks for. Gemini also gets PLAN_SCHEMA; other models only have this to go on.
+export const planPrompt = (prompt: string) => `
+    You are a smoke artist painting with a 2D fluid simulation. Plan brush strokes and emitters that
+    will draw: "${prompt.replace(/"/g, "'")}".
+
+    Coordinates are fractions of the canvas: x from 0 (left) to 1 (right), y from 0 (top) to 1 (bottom).
+    Strokes drag a brush along their points. "smoke" leaves dye and pushes the air along the path, "wind"
+    only pushes, "eraser" removes dye. Sizes are 1-20 (4 is a medium brush),
+    force is 0-20 (5 is a normal drag). Times are in seconds; keep the whole plan under 15 seconds.
+    Emitters are fixed sources: "smoke" puffs dye in the direction of "angle" (degrees, 0 = right, -90 = up),
+    "wind" blows air, "sink" drains dye. Rate is 0-1. A duration of 0 keeps an emitter running.
+    Colors are #rrggbb. Use at most 12 strokes of up to 20 points and at most 4 emitters.
+  `;
+
+// Models sometimes wrap their JSON in a Markdown fence
+const parseJsonReply = (text: string | undefined): unknown => {
+  if (!text) throw new AnalysisError('malformed', 'The provider returned an empty response.', true);
+  try {
+    return JSON.parse(text.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, ''));
+  } catch {
+    throw new AnalysisError('malformed', 'The provider replied with something other than JSON.', true);
+  }
+};
+
+// Check a model's reply has the shape we asked for. Models sometimes add extra fields or return
+// numbers; a reply without a title, description and mood is rejected. The structured parts are
+// best-effort: entries that don't fit are dropped rather than failing the whole critique.
+export const parseAnalysisResponse = (text: string | undefined): GeminiAnalysisResult => {
+  const reply = parseJsonReply(text);
+  const data = isRecord(reply) ? reply : {};
+  const field = (key: 'title' | 'description' | 'mood') => {
+    const value = data[key];
+    if (!isText(value)) {
+      throw new AnalysisError('malformed', `The provider's reply is missing a ${key}.`, true);
+    }
+    return value.trim().slice(0, MAX_FIELD_LENGTH);
+  };
+  return {
+    title: field('title'),
+    description: field('description'),
+    mood: field('mood'),
+    ...parseCritiqueDetails(data)
+  };
+};
+
+const MAX_SHAPES = 8;
+const MAX_COLORS = 8;
+const MAX_SUGGESTIONS = 4;
+const MAX_PATH_POINTS = 12;
+
+const isText = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+const clampFraction = (value: number) => Math.min(1, Math.max(0, value));
+const list = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+const parseRegion = (region: unknown): DetectedShape['region'] | null => {
+  if (!isRecord(region)) return null;
+  const { x: left, y: top, width: w, height: h } = region;
+  if (!isNumber(left) || !isNumber(top) || !isNumber(w) || !isNumber(h)) return null;
+  const x = clampFraction(left);
+  const y = clampFraction(top);
+  const width = clampFraction(left + w) - x;
+  const height = clampFraction(top + h) - y;
+  return width > 0 && height > 0 ? { x, y, width, height } : null;
+};
+
+const parseShape = (value: unknown): DetectedShape | null => {
+  if (!isRecord(value) || !isText(value.label)) return null;
+  const region = parseRegion(value.region);
+  return region ? { label: value.label.trim(), region } : null;
+};
+
+const parsePoint = (value: unknown) =>
+  isRecord(value) && isNumber(value.x) && isNumber(value.y) ? { x: clampFraction(value.x), y: clampFraction(value.y) } : null;
+
+const parseSuggestion = (value: unknown): SuggestedStroke | null => {
+  if (!isRecord(value) || !isText(value.description)) return null;
+  return {
+    description: value.description.trim().slice(0, MAX_FIELD_LENGTH),
+    path: list(value.path)
+      .map(parsePoint)
+      .filter((point): point is { x: number; y: number } => point !== null)
+      .slice(0, MAX_PATH_POINTS)
+  };
+};
+
+const isPresent = <T>(value: T | null): value is T => value !== null;
+
+// The structured half of a critique. Also used to fill in gallery entries saved before it existed.
+export const parseCritiqueDetails = (value: unknown): Pick<GeminiAnalysisResult, 'motion' | 'shapes' | 'palette' | 'suggestions'> => {
+  const data = isRecord(value) ? value : {};
+  return {
+    motion: isText(data.motion) ? data.motion.trim().slice(0, MAX_FIELD_LENGTH) : '',
+    shapes: list(data.shapes).map(parseShape).filter(isPresent).slice(0, MAX_SHAPES),
+    palette: list(data.palette)
+      .filter((color): color is string => typeof color === 'string' && /^#[0-9a-f]{6}$/i.test(color.trim()))
+      .map(color => color.trim().toLowerCase())
+      .slice(0, MAX_COLORS),
+    suggestions: list(data.suggestions).map(parseSuggestion).filter(isPresent).slice(0, MAX_SUGGESTIONS)
+  };
+};
+
+export const parsePlanResponse = (text: string | undefined): SmokePlan => {
+  const data = parseJsonReply(text);
+  try {
+    return parseSmokePlan(data);
+  } catch (error) {
+    throw new AnalysisError('malformed', error instanceof Error ? error.message : 'The plan could not be read.', true);
+  }
+};
@@ -1,70 +1,162 @@
-import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { GeminiAnalysisResult } from '../types';
+import { ApiError, GoogleGenAI, Type, Schema, Part } from "@google/genai";
+import { AnalysisProvider, GeminiAnalysisResult, PlanProvider, SmokePlan } from '../types';
+import { analysisPrompt, parseAnalysisResponse, parsePlanResponse, planPrompt, stripDataUrl } from './analysisPrompt';
+import { AnalysisError, httpError, networkError } from './analysisErrors';
 
-const apiKey = process.env.API_KEY || '';
+export const GEMINI_DEFAULT_MODEL = 'gemini-2.5-flash';
 
-// We create the client inside the function call to ensure we pick up the key if it changes, 
-// though typically env vars are static.
-const getAIClient = () => new GoogleGenAI({ apiKey });
+// Key baked in at build time (GEMINI_API_KEY in .env.local); a key entered in the settings takes precedence
+export const BUILD_API_KEY = process.env.API_KEY || '';
 
-export const analyzeSmokeArt = async (base64Image: string): Promise<GeminiAnalysisResult> => {
-  if (!apiKey) {
-    throw new Error("API Key is missing");
-  }
-
-  const ai = getAIClient();
-  
-  // Remove header if present (data:image/png;base64,)
-  const base64Data = base64Image.replace(/^data:image\/\w+;base64,/, "");
+const POINT_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: { x: { type: Type.NUMBER }, y: { type: Type.NUMBER } },
+  required: ["x", "y"]
+};
 
-  const prompt = `
-    You are an art critic specializing in abstract fluid dynamics and ephemeral art.
-    Analyze this generated smoke image. 
-    
-    1. Give it a short, poetic title.
-    2. Describe the shapes, movement, and pareidolia (what objects it resembles, e.g., a dragon, a cloud, a dancer).
-    3. Describe the mood (e.g., ethereal, turbulent, calm).
-    
-    Keep the description under 50 words.
-  `;
+const ANALYSIS_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING },
+    description: { type: Type.STRING },
+    mood: { type: Type.STRING },
+    motion: { type: Type.STRING },
+    shapes: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          label: { type: Type.STRING },
+          region: {
+            type: Type.OBJECT,
+            properties: {
+              x: { type: Type.NUMBER },
+              y: { type: Type.NUMBER },
+              width: { type: Type.NUMBER },
+              height: { type: Type.NUMBER }
+            },
+            required: ["x", "y", "width", "height"]
+          }
+        },
+        required: ["label", "region"]
+      }
+    },
+    palette: { type: Type.ARRAY, items: { type: Type.STRING } },
+    suggestions: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          description: { type: Type.STRING },
+          path: { type: Type.ARRAY, items: POINT_SCHEMA }
+        },
+        required: ["description", "path"]
+      }
+    }
+  },
+  required: ["title", "description", "mood", "motion", "shapes", "palette", "suggestions"]
+};
 
-  const responseSchema: Schema = {
-    type: Type.OBJECT,
-    properties: {
-      title: { type: Type.STRING },
-      description: { type: Type.STRING },
-      mood: { type: Type.STRING }
+const PLAN_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING },
+    strokes: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          points: { type: Type.ARRAY, items: POINT_SCHEMA },
+          tool: { type: Type.STRING, enum: ["smoke", "wind", "eraser"] },
+          color: { type: Type.STRING },
+          size: { type: Type.NUMBER },
+          force: { type: Type.NUMBER },
+          start: { type: Type.NUMBER },
+          duration: { type: Type.NUMBER }
+        },
+        required: ["points", "tool", "color", "size", "force", "start", "duration"]
+      }
     },
-    required: ["title", "description", "mood"]
-  };
+    emitters: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          kind: { type: Type.STRING, enum: ["smoke", "wind", "sink"] },
+          x: { type: Type.NUMBER },
+          y: { type: Type.NUMBER },
+          angle: { type: Type.NUMBER },
+          rate: { type: Type.NUMBER },
+          radius: { type: Type.NUMBER },
+          color: { type: Type.STRING },
+          start: { type: Type.NUMBER },
+          duration: { type: Type.NUMBER }
+        },
+        required: ["kind", "x", "y", "angle", "rate", "radius", "color", "start", "duration"]
+      }
+    }
+  },
+  required: ["title", "strokes", "emitters"]
+};
+
+// Gemini rejects a bad key with 400 INVALID_ARGUMENT ("API key not valid", reason API_KEY_INVALID), not 401
+const KEY_ERROR = /api[ _]key/i;
+
+// The SDK reports HTTP failures as ApiError and unreachable servers as fetch's TypeError
+const classifyError = (error: unknown): AnalysisError => {
+  if (error instanceof ApiError) {
+    // Reported like any other rejected key, so it isn't retried and the error card offers the settings
+    if (error.status === 400 && KEY_ERROR.test(error.message)) return httpError(401);
+    return httpError(error.status);
+  }
+  if (error instanceof TypeError) return networkError();
+  return new AnalysisError('server', error instanceof Error ? error.message : 'Gemini request failed.');
+};
+
+// One structured-output request; returns the raw JSON text for the caller to validate
+const generateJson = async (apiKey: string, model: string, parts: Part[], responseSchema: Schema, signal?: AbortSignal) => {
+  const key = apiKey || BUILD_API_KEY;
+  if (!key) {
+    throw new AnalysisError('missing-key', 'No Gemini API key. Add one in Settings → Analysis, or switch to the offline provider.');
+  }
 
+  const ai = new GoogleGenAI({ apiKey: key });
   try {
     const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: 'image/png',
-              data: base64Data
-            }
-          },
-          { text: prompt }
-        ]
-      },
+      model: model || GEMINI_DEFAULT_MODEL,
+      contents: { parts },
       config: {
         responseMimeType: "application/json",
         responseSchema: responseSchema,
+        abortSignal: signal
       }
     });
-
-    const text = response.text;
-    if (!text) throw new Error("No response from Gemini");
-
-    return JSON.parse(text) as GeminiAnalysisResult;
-
+    return response.text;
   } catch (error) {
-    console.error("Gemini analysis failed:", error);
-    throw error;
+    signal?.throwIfAborted();
+    console.error("Gemini request failed:", error);
+    throw classifyError(error);
+  }
+};
+
+export const createGeminiProvider = (apiKey: string, model: string): AnalysisProvider => ({
+  kind: 'gemini',
+  analyze: async (frames: string[], interval: number, signal?: AbortSignal): Promise<GeminiAnalysisResult> => {
+    const parts: Part[] = [
+      ...frames.map(frame => ({
+        inlineData: {
+          mimeType: 'image/png',
+          data: stripDataUrl(frame)
+        }
+      })),
+      { text: analysisPrompt(frames.length, interval) }
+    ];
+    return parseAnalysisResponse(await generateJson(apiKey, model, parts, ANALYSIS_SCHEMA, signal));
   }
-};
\ No newline at end of file
+});
+
+export const createGeminiPlanProvider = (apiKey: string, model: string): PlanProvider => ({
+  kind: 'gemini',
+  plan: async (prompt: string, signal?: AbortSignal): Promise<SmokePlan> =>
+    parsePlanResponse(await generateJson(apiKey, model, [{ text: planPrompt(prompt) }], PLAN_SCHEMA, signal))
+});
@@ -0,0 +1,57 @@
+import { PlanProvider, SmokePlan } from '../types';
+import { parseSmokePlan } from '../utils/smokePlan';
+
+// A provider that answers with fixed plans instead of asking a model. Give it one plan, a list to pick from
+// by the prompt's keywords (the first plan whose title shares a word with the prompt, else the first plan),
+// or a function for full control. Plans go through the same validation as a model's.
+export const createMockPlanProvider = (plans: SmokePlan | SmokePlan[] | ((prompt: string) => SmokePlan)): PlanProvider => ({
+  kind: 'offline',
+  plan: async (prompt: string, signal?: AbortSignal) => {
+    signal?.throwIfAborted();
+    if (typeof plans === 'function') return parseSmokePlan(plans(prompt));
+    const list = Array.isArray(plans) ? plans : [plans];
+    const words = prompt.toLowerCase().split(/\W+/).filter(Boolean);
+    const match = list.find(plan => plan.title.toLowerCase().split(/\W+/).some(word => words.includes(word)));
+    return parseSmokePlan(match ?? list[0]);
+  }
+});
+
+const spiral = (cx: number, cy: number, turns: number, radius: number, points: number) =>
+  Array.from({ length: points }, (_, i) => {
+    const t = i / (points - 1);
+    const angle = t * turns * 2 * Math.PI;
+    return { x: cx + Math.cos(angle) * radius * t, y: cy + Math.sin(angle) * radius * t };
+  });
+
+// What the offline provider plays: a few hand-made pieces
+export const OFFLINE_PLANS: SmokePlan[] = [
+  {
+    title: 'Rising plume',
+    strokes: [
+      { points: [{ x: 0.5, y: 0.95 }, { x: 0.48, y: 0.75 }, { x: 0.52, y: 0.55 }], tool: 'smoke', color: '#ffffff', size: 6, force: 4, start: 0, duration: 2 },
+      { points: [{ x: 0.45, y: 0.9 }, { x: 0.4, y: 0.7 }], tool: 'smoke', color: '#fbbf24', size: 3, force: 3, start: 1.5, duration: 1.5 }
+    ],
+    emitters: [{ kind: 'smoke', x: 0.5, y: 0.95, angle: -90, rate: 0.5, radius: 3, color: '#f97316', start: 0.5, duration: 6 }]
+  },
+  {
+    title: 'Spiral galaxy',
+    strokes: [
+      { points: spiral(0.5, 0.5, 2, 0.35, 20), tool: 'smoke', color: '#a78bfa', size: 4, force: 6, start: 0, duration: 4 },
+      { points: spiral(0.5, 0.5, 1.5, 0.25, 16), tool: 'smoke', color: '#67e8f9', size: 2, force: 4, start: 2, duration: 3 }
+    ],
+    emitters: []
+  },
+  {
+    title: 'Ocean waves',
+    strokes: [0.45, 0.6, 0.75].map((y, i) => ({
+      points: Array.from({ length: 12 }, (_, k) => ({ x: 0.05 + (k / 11) * 0.9, y: y + Math.sin((k / 11) * 4 * Math.PI) * 0.05 })),
+      tool: 'smoke' as const,
+      color: ['#38bdf8', '#0ea5e9', '#1d4ed8'][i],
+      size: 4,
+      force: 6,
+      start: i * 1.2,
+      duration: 2.5
+    })),
+    emitters: [{ kind: 'wind', x: 0.02, y: 0.6, angle: 0, rate: 0.4, radius: 6, color: '#ffffff', start: 3, duration: 4 }]
+  }
+];
@@ -0,0 +1,312 @@
+import { AnalysisProvider, DetectedShape, GeminiAnalysisResult, SuggestedStroke } from '../types';
+
+// Pixels darker than this count as empty canvas
+const LIT_THRESHOLD = 0.08;
+// The image is read at this width; a critique doesn't need more detail, and it keeps the scan cheap
+const SAMPLE_WIDTH = 64;
+
+const HUE_WORDS: { below: number; word: string }[] = [
+  { below: 15, word: 'Crimson' },
+  { below: 45, word: 'Amber' },
+  { below: 70, word: 'Golden' },
+  { below: 160, word: 'Verdant' },
+  { below: 200, word: 'Glacial' },
+  { below: 250, word: 'Cobalt' },
+  { below: 290, word: 'Violet' },
+  { below: 340, word: 'Rose' },
+  { below: 360, word: 'Crimson' }
+];
+
+const hueOf = (r: number, g: number, b: number) => {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const delta = max - min;
+  if (delta === 0) return { hue: 0, saturation: 0 };
+  let hue = max === r ? ((g - b) / delta) % 6 : max === g ? (b - r) / delta + 2 : (r - g) / delta + 4;
+  hue = (hue * 60 + 360) % 360;
+  return { hue, saturation: delta / max };
+};
+
+interface Frame {
+  pixels: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+// Where the smoke sits and how much of it there is; the starting point for every other measurement
+const measure = ({ pixels, width, height }: Frame) => {
+  const luminance = new Float32Array(width * height);
+  let lit = 0;
+  let mass = 0;
+  let sumX = 0;
+  let sumY = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const l = 0.2126 * (pixels[i * 4] / 255) + 0.7152 * (pixels[i * 4 + 1] / 255) + 0.0722 * (pixels[i * 4 + 2] / 255);
+      luminance[i] = l;
+      if (l < LIT_THRESHOLD) continue;
+      lit++;
+      mass += l;
+      sumX += l * (x + 0.5);
+      sumY += l * (y + 0.5);
+    }
+  }
+  const coverage = lit / (width * height);
+  return {
+    luminance,
+    lit,
+    mass,
+    coverage,
+    empty: coverage < 0.002,
+    cx: mass > 0 ? sumX / mass / width : 0.5,
+    cy: mass > 0 ? sumY / mass / height : 0.5
+  };
+};
+
+const MAX_SHAPES = 4;
+
+// Connected patches of smoke, largest first, each labelled by its outline
+const findShapes = (luminance: Float32Array, width: number, height: number): DetectedShape[] => {
+  const seen = new Uint8Array(width * height);
+  const minCells = Math.max(4, width * height * 0.005);
+  const patches: { mass: number; cells: number; x0: number; y0: number; x1: number; y1: number }[] = [];
+  const stack: number[] = [];
+  for (let start = 0; start < luminance.length; start++) {
+    if (seen[start] || luminance[start] < LIT_THRESHOLD) continue;
+    const patch = { mass: 0, cells: 0, x0: width, y0: height, x1: 0, y1: 0 };
+    seen[start] = 1;
+    stack.push(start);
+    while (stack.length) {
+      const i = stack.pop()!;
+      const x = i % width;
+      const y = (i - x) / width;
+      patch.mass += luminance[i];
+      patch.cells++;
+      patch.x0 = Math.min(patch.x0, x);
+      patch.y0 = Math.min(patch.y0, y);
+      patch.x1 = Math.max(patch.x1, x + 1);
+      patch.y1 = Math.max(patch.y1, y + 1);
+      const neighbours = [x > 0 ? i - 1 : -1, x + 1 < width ? i + 1 : -1, y > 0 ? i - width : -1, y + 1 < height ? i + width : -1];
+      for (const n of neighbours) {
+        if (n < 0 || seen[n] || luminance[n] < LIT_THRESHOLD) continue;
+        seen[n] = 1;
+        stack.push(n);
+      }
+    }
+    if (patch.cells >= minCells) patches.push(patch);
+  }
+
+  return patches
+    .sort((a, b) => b.mass - a.mass)
+    .slice(0, MAX_SHAPES)
+    .map(patch => {
+      const w = patch.x1 - patch.x0;
+      const h = patch.y1 - patch.y0;
+      let label = 'Cloud';
+      if (patch.cells < width * height * 0.02) label = 'Wisp';
+      else if (h > 1.6 * w) label = 'Column';
+      else if (w > 1.6 * h) label = 'Streak';
+      else if (patch.cells < 0.45 * w * h) label = 'Curl';
+      return { label, region: { x: patch.x0 / width, y: patch.y0 / height, width: w / width, height: h / height } };
+    });
+};
+
+const MAX_COLORS = 5;
+const GREY = 12;
+
+const toHex = (value: number) => Math.round(Math.min(1, value) * 255).toString(16).padStart(2, '0');
+
+// The smoke's colours, bucketed by hue (greys together) and weighted towards the brightest wisps
+const findPalette = ({ pixels }: Frame, luminance: Float32Array) => {
+  const buckets = Array.from({ length: GREY + 1 }, () => ({ weight: 0, r: 0, g: 0, b: 0 }));
+  for (let i = 0; i < luminance.length; i++) {
+    const l = luminance[i];
+    if (l < LIT_THRESHOLD) continue;
+    const r = pixels[i * 4] / 255;
+    const g = pixels[i * 4 + 1] / 255;
+    const b = pixels[i * 4 + 2] / 255;
+    const { hue, saturation } = hueOf(r, g, b);
+    const bucket = buckets[saturation < 0.2 ? GREY : Math.floor(hue / 30) % 12];
+    bucket.weight += l;
+    bucket.r += r * l;
+    bucket.g += g * l;
+    bucket.b += b * l;
+  }
+  const total = buckets.reduce((sum, bucket) => sum + bucket.weight, 0);
+  return buckets
+    .filter(bucket => bucket.weight > 0.05 * total)
+    .sort((a, b) => b.weight - a.weight)
+    .slice(0, MAX_COLORS)
+    .map(bucket => `#${toHex(bucket.r / bucket.weight)}${toHex(bucket.g / bucket.weight)}${toHex(bucket.b / bucket.weight)}`);
+};
+
+const QUADRANTS = [
+  { name: 'upper left', x: 0.25, y: 0.25 },
+  { name: 'upper right', x: 0.75, y: 0.25 },
+  { name: 'lower left', x: 0.25, y: 0.75 },
+  { name: 'lower right', x: 0.75, y: 0.75 }
+];
+
+const clampPoint = (x: number, y: number) => ({ x: Math.min(0.95, Math.max(0.05, x)), y: Math.min(0.95, Math.max(0.05, y)) });
+
+// A critique built purely from image statistics: where the smoke sits, its colour, how ragged its edges are.
+// The same image always gets the same words, so it doubles as a stand-in for tests and offline use.
+export const describeImage = (pixels: Uint8ClampedArray, width: number, height: number): GeminiAnalysisResult => {
+  const frame = { pixels, width, height };
+  const { luminance, lit, mass, coverage, empty, cx, cy } = measure(frame);
+  if (empty) {
+    return {
+      title: 'Untitled Void',
+      description: 'The canvas is still dark, with no smoke to read yet. Paint a few strokes and ask again.',
+      mood: 'Expectant',
+      motion: 'Nothing moves yet',
+      shapes: [],
+      palette: [],
+      suggestions: [{ description: 'Start with a slow smoke stroke rising from the bottom', path: [{ x: 0.5, y: 0.9 }, { x: 0.48, y: 0.7 }, { x: 0.52, y: 0.5 }] }]
+    };
+  }
+
+  let varX = 0;
+  let varY = 0;
+  let edges = 0;
+  let sumR = 0;
+  let sumG = 0;
+  let sumB = 0;
+  const quadrantMass = [0, 0, 0, 0];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const l = luminance[i];
+      if (l >= LIT_THRESHOLD) {
+        varX += l * (x / width - cx) ** 2;
+        varY += l * (y / height - cy) ** 2;
+        sumR += pixels[i * 4] / 255;
+        sumG += pixels[i * 4 + 1] / 255;
+        sumB += pixels[i * 4 + 2] / 255;
+        quadrantMass[(2 * y >= height ? 2 : 0) + (2 * x >= width ? 1 : 0)] += l;
+      }
+      if (x + 1 < width) edges += Math.abs(luminance[i + 1] - l);
+      if (y + 1 < height) edges += Math.abs(luminance[i + width] - l);
+    }
+  }
+  varX /= mass;
+  varY /= mass;
+  // Edge contrast per unit of smoke: soft plumes score low, broken-up filaments high
+  const turbulence = edges / mass;
+  const brightness = mass / lit;
+  const { hue, saturation } = hueOf(sumR / lit, sumG / lit, sumB / lit);
+
+  const colour =
+    saturation < 0.2 ? (brightness > 0.5 ? 'Silver' : 'Ashen') : HUE_WORDS.find(h => hue < h.below)?.word ?? 'Crimson';
+  const tall = varY > 1.6 * varX;
+  const wide = varX > 1.6 * varY;
+  const ragged = turbulence > 1.2;
+  let noun = ragged ? 'Knot' : 'Bloom';
+  if (coverage < 0.03) noun = 'Whisper';
+  else if (ragged && coverage > 0.3) noun = 'Storm';
+  else if (tall) noun = ragged ? 'Plume' : 'Column';
+  else if (wide) noun = ragged ? 'Tide' : 'Drift';
+
+  const vertical = cy < 0.35 ? 'high up' : cy > 0.65 ? 'low down' : 'near the middle';
+  const horizontal = cx < 0.35 ? ' on the left' : cx > 0.65 ? ' on the right' : '';
+  const edgeWords = turbulence > 1.8 ? 'torn into filaments' : ragged ? 'curling and frayed' : turbulence > 0.6 ? 'gently feathered' : 'soft as breath';
+  const shapeWords = tall ? 'rises in a column' : wide ? 'stretches sideways' : 'gathers in a loose mass';
+
+  let mood = 'Calm';
+  if (ragged) mood = 'Turbulent';
+  else if (coverage < 0.08 && brightness < 0.5) mood = 'Ethereal';
+  else if (saturation > 0.5 && brightness > 0.5) mood = 'Vivid';
+  else if (brightness < 0.35) mood = 'Brooding';
+
+  // A single still can only hint at the motion; multi-frame analyses replace this with what actually moved
+  const motion = ragged ? 'Churning in place' : tall ? 'Rising in a column' : wide ? 'Drifting sideways' : 'Hanging almost still';
+
+  const suggestions: SuggestedStroke[] = [];
+  const emptiest = quadrantMass.indexOf(Math.min(...quadrantMass));
+  if (quadrantMass[emptiest] < 0.1 * mass) {
+    const { name, x, y } = QUADRANTS[emptiest];
+    suggestions.push({
+      description: `Balance the composition with a slow smoke stroke through the empty ${name}`,
+      path: [clampPoint(x - 0.15, y + 0.05), clampPoint(x, y - 0.03), clampPoint(x + 0.15, y + 0.05)]
+    });
+  }
+  if (ragged) {
+    const below = cy + 2 * Math.sqrt(varY);
+    suggestions.push({
+      description: 'Let it settle, then lay a soft stroke beneath it to anchor the form',
+      path: [clampPoint(cx - 0.2, below), clampPoint(cx + 0.2, below)]
+    });
+  } else {
+    suggestions.push({
+      description: `Flick a quick wind stroke across the ${noun.toLowerCase()} to break it into curls`,
+      path: [clampPoint(cx - 0.15, cy), clampPoint(cx + 0.15, cy - 0.05)]
+    });
+  }
+
+  return {
+    title: `${colour} ${noun}`,
+    description: `${/^[AEIOU]/.test(colour) ? 'An' : 'A'} ${colour.toLowerCase()} haze ${shapeWords} ${vertical}${horizontal}, covering about ${Math.max(1, Math.round(coverage * 100))}% of the canvas. Its edges are ${edgeWords}.`,
+    mood,
+    motion,
+    shapes: findShapes(luminance, width, height),
+    palette: findPalette(frame, luminance),
+    suggestions
+  };
+};
+
+// Critique the last frame, with the motion read from how the smoke moved between the first and last
+export const describeFrames = (frames: Frame[], interval: number): GeminiAnalysisResult => {
+  const last = frames[frames.length - 1];
+  const result = describeImage(last.pixels, last.width, last.height);
+  if (frames.length < 2) return result;
+
+  const before = measure(frames[0]);
+  const after = measure(last);
+  if (before.empty && after.empty) return result;
+  if (before.empty) return { ...result, motion: 'Appearing out of the dark' };
+  if (after.empty) return { ...result, motion: 'Fading away to nothing' };
+
+  const seconds = interval * (frames.length - 1);
+  const dx = after.cx - before.cx;
+  const dy = after.cy - before.cy;
+  const growth = after.coverage / before.coverage;
+  const parts: string[] = [];
+  if (dy < -0.02) parts.push('rising');
+  else if (dy > 0.02) parts.push('sinking');
+  if (dx < -0.02) parts.push('drifting left');
+  else if (dx > 0.02) parts.push('drifting right');
+  if (growth > 1.15) parts.push('spreading out');
+  else if (growth < 0.85) parts.push('thinning');
+  if (!parts.length) return { ...result, motion: `Holding almost still over ${seconds.toFixed(1)} s` };
+
+  const pace = Math.hypot(dx, dy) / seconds > 0.1 ? 'Quickly ' : '';
+  const words = parts.length > 1 ? `${parts.slice(0, -1).join(', ')} and ${parts[parts.length - 1]}` : parts[0];
+  const sentence = `${pace}${words}`;
+  return { ...result, motion: `${sentence[0].toUpperCase()}${sentence.slice(1)} over ${seconds.toFixed(1)} s` };
+};
+
+const readPixels = async (imageDataUrl: string): Promise<Frame> => {
+  const bitmap = await createImageBitmap(await (await fetch(imageDataUrl)).blob());
+  const width = SAMPLE_WIDTH;
+  const height = Math.max(1, Math.round((bitmap.height / bitmap.width) * SAMPLE_WIDTH));
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not read the image');
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+  return { pixels: ctx.getImageData(0, 0, width, height).data, width, height };
+};
+
+// Needs no key and no network
+export const createOfflineProvider = (): AnalysisProvider => ({
+  kind: 'offline',
+  analyze: async (frames: string[], interval: number, signal?: AbortSignal) => {
+    const pixels: Frame[] = [];
+    for (const frame of frames) {
+      pixels.push(await readPixels(frame));
+      signal?.throwIfAborted();
+    }
+    return describeFrames(pixels, interval);
+  }
+});
@@ -0,0 +1,74 @@
+import { AnalysisProvider, GeminiAnalysisResult, PlanProvider, SmokePlan } from '../types';
+import { analysisPrompt, parseAnalysisResponse, parsePlanResponse, planPrompt } from './analysisPrompt';
+import { AnalysisError, httpError, networkError } from './analysisErrors';
+import { isRecord } from '../utils/validate';
+
+// Ollama's OpenAI-compatible API; LM Studio, llama.cpp's server and OpenAI itself work the same way
+export const OPENAI_DEFAULT_ENDPOINT = 'http://localhost:11434/v1';
+export const OPENAI_DEFAULT_MODEL = 'llava';
+
+// Not every server honours response_format, so the reply shape is also spelled out in the prompt
+const JSON_INSTRUCTIONS =
+  'Reply with only a JSON object: {"title": string, "description": string, "mood": string, "motion": string, ' +
+  '"shapes": [{"label", "region": {"x", "y", "width", "height"}}], "palette": [string], "suggestions": [{"description", "path": [{"x", "y"}]}]}.';
+const PLAN_JSON_INSTRUCTIONS =
+  'Reply with only a JSON object: {"title": string, "strokes": [{"points": [{"x", "y"}], "tool", "color", "size", "force", "start", "duration"}], ' +
+  '"emitters": [{"kind", "x", "y", "angle", "rate", "radius", "color", "start", "duration"}]}.';
+
+type MessageContent = { type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } };
+
+// One chat completion asking for JSON; returns the raw reply text for the caller to validate
+const chatJson = async (endpoint: string, apiKey: string, model: string, content: MessageContent[], signal?: AbortSignal) => {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  // Local servers usually need no key
+  if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+
+  const url = `${(endpoint || OPENAI_DEFAULT_ENDPOINT).replace(/\/+$/, '')}/chat/completions`;
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers,
+      signal,
+      body: JSON.stringify({
+        model: model || OPENAI_DEFAULT_MODEL,
+        messages: [{ role: 'user', content }],
+        response_format: { type: 'json_object' }
+      })
+    });
+  } catch {
+    signal?.throwIfAborted();
+    throw networkError();
+  }
+  if (!response.ok) throw httpError(response.status, response.headers.get('Retry-After'));
+
+  let data: unknown;
+  try {
+    data = await response.json();
+  } catch {
+    signal?.throwIfAborted();
+    throw new AnalysisError('malformed', 'The analysis server did not reply with JSON.', true);
+  }
+  // { choices: [{ message: { content } }] }
+  const choice: unknown = isRecord(data) && Array.isArray(data.choices) ? data.choices[0] : undefined;
+  const message = isRecord(choice) ? choice.message : undefined;
+  return isRecord(message) && typeof message.content === 'string' ? message.content : undefined;
+};
+
+// Any server speaking the OpenAI chat completions API with image input, local or hosted
+export const createOpenAICompatibleProvider = (endpoint: string, apiKey: string, model: string): AnalysisProvider => ({
+  kind: 'openai',
+  analyze: async (frames: string[], interval: number, signal?: AbortSignal): Promise<GeminiAnalysisResult> => {
+    const content: MessageContent[] = [
+      { type: 'text', text: `${analysisPrompt(frames.length, interval)}\n${JSON_INSTRUCTIONS}` },
+      ...frames.map((frame): MessageContent => ({ type: 'image_url', image_url: { url: frame } }))
+    ];
+    return parseAnalysisResponse(await chatJson(endpoint, apiKey, model, content, signal));
+  }
+});
+
+export const createOpenAICompatiblePlanProvider = (endpoint: string, apiKey: string, model: string): PlanProvider => ({
+  kind: 'openai',
+  plan: async (prompt: string, signal?: AbortSignal): Promise<SmokePlan> =>
+    parsePlanResponse(await chatJson(endpoint, apiKey, model, [{ type: 'text', text: `${planPrompt(prompt)}\n${PLAN_JSON_INSTRUCTIONS}` }], signal))
+});
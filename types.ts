@@ -1,20 +1,416 @@
 export enum ToolMode {
   SMOKE = 'SMOKE', // Adds density (white ink) and velocity
   WIND = 'WIND',   // Adds velocity only (transparent/interaction)
-  ERASER = 'ERASER' // Removes density
+  ERASER = 'ERASER', // Removes density
+  WALL = 'WALL', // Paints solid obstacles the fluid flows around
+  WALL_ERASER = 'WALL_ERASER', // Removes obstacles
+  EMITTER = 'EMITTER' // Places, selects and drags persistent emitters and sinks
+}
+
+export interface RGBColor {
+  r: number; // 0-255
+  g: number;
+  b: number;
 }
 
 export interface SimulationConfig {
-  resolution: number;
+  resolution: number; // Cells along the shorter side of the domain, the longer side follows the aspect ratio
   viscosity: number;
   diffusion: number;
   fadeRate: number; // How fast smoke disappears
   iterations: number; // Solver accuracy
-  dyeRes: number; // Resolution of the dye grid relative to velocity
+  dyeRes: number; // Shorter side of the dye grid, independent of the (usually coarser) velocity grid
+  vorticity: number; // Vorticity confinement strength, keeps small swirls alive (0 = off)
+  buoyancy: number; // How strongly hot smoke rises (0 = off)
+  coolingRate: number; // How fast smoke loses its heat
+  historyLimitMB: number; // Memory cap for the undo history's compressed snapshots
+  boundaries: BoundaryConditions;
+}
+
+// How the fluid behaves at one edge of the domain:
+// 'wall' reflects the flow across it but lets it slide along, 'noslip' also stops it sliding,
+// 'inflow' blows clean air in at `speed`, 'outflow' lets everything leave freely,
+// 'periodic' wraps around to the opposite edge (only when that edge is periodic too)
+export type EdgeKind = 'wall' | 'noslip' | 'inflow' | 'outflow' | 'periodic';
+
+export interface EdgeBoundary {
+  kind: EdgeKind;
+  speed: number; // Inflow speed into the domain
 }
 
+// Screen edges: top is row 0 of the grids
+export interface BoundaryConditions {
+  left: EdgeBoundary;
+  right: EdgeBoundary;
+  top: EdgeBoundary;
+  bottom: EdgeBoundary;
+}
+
+// --- AI analysis ---
+
+// What every analysis provider returns, whichever model (or none) produced it
 export interface GeminiAnalysisResult {
   title: string;
   description: string;
   mood: string;
-}
\ No newline at end of file
+  motion: string; // The dominant movement, e.g. "rising and curling to the left"
+  shapes: DetectedShape[];
+  palette: string[]; // #rrggbb, most prominent first
+  suggestions: SuggestedStroke[];
+}
+
+// Positions are fractions of the canvas, from the top left
+export interface DetectedShape {
+  label: string; // What it resembles
+  region: { x: number; y: number; width: number; height: number };
+}
+
+export interface SuggestedStroke {
+  description: string;
+  path: { x: number; y: number }[]; // Where to draw it; may be empty
+}
+
+export type AnalysisProviderKind = 'gemini' | 'openai' | 'offline';
+
+// Chosen in the settings panel and kept in local storage
+export interface AnalysisSettings {
+  provider: AnalysisProviderKind;
+  apiKey: string; // Blank falls back to the key the app was built with (Gemini only)
+  model: string; // Blank uses the provider's default
+  endpoint: string; // Base URL of the OpenAI-compatible server, e.g. http://localhost:11434/v1
+  frames: number; // Frames captured per analysis; more than one lets the critique follow the motion
+  frameInterval: number; // Seconds between captured frames
+}
+
+// Turns PNG data URLs of the canvas, oldest first, into a critique. `interval` is the time between frames
+// in seconds. Fails with an AnalysisError; rejects with the signal's reason when aborted.
+export interface AnalysisProvider {
+  readonly kind: AnalysisProviderKind;
+  analyze(frames: string[], interval: number, signal?: AbortSignal): Promise<GeminiAnalysisResult>;
+}
+
+// 'server' covers any other refusal or failure on the provider's side
+export type AnalysisErrorKind = 'missing-key' | 'rate-limit' | 'network' | 'malformed' | 'server';
+
+// --- Prompt to smoke ---
+
+// A model's answer to a prompt: strokes to draw and emitters to run, in canvas fractions and seconds.
+// Always checked with parseSmokePlan before it is played.
+export interface SmokePlan {
+  title: string;
+  strokes: PlannedStroke[];
+  emitters: PlannedEmitter[];
+}
+
+export interface PlannedStroke {
+  points: { x: number; y: number }[]; // Fractions of the canvas, top left is 0,0
+  tool: 'smoke' | 'wind' | 'eraser';
+  color: string; // #rrggbb
+  size: number; // Toolbar brush size units
+  force: number; // As in BrushTuning
+  start: number; // Seconds after the plan starts playing
+  duration: number; // Seconds to draw the path
+}
+
+export interface PlannedEmitter {
+  kind: EmitterKind;
+  x: number; // Fractions of the canvas
+  y: number;
+  angle: number; // Degrees, 0 = right, -90 = up
+  rate: number; // 0-1
+  radius: number;
+  color: string;
+  start: number; // Seconds
+  duration: number; // Seconds; 0 keeps it running after the plan ends
+}
+
+export interface PlanProvider {
+  readonly kind: AnalysisProviderKind;
+  plan(prompt: string, signal?: AbortSignal): Promise<SmokePlan>;
+}
+
+// One past analysis in the gallery
+export interface AnalysisEntry {
+  id: number;
+  createdAt: number; // ms since the epoch
+  provider: AnalysisProviderKind;
+  result: GeminiAnalysisResult;
+  config: SimulationConfig; // The settings the analyzed frame was made with
+  image: Blob; // The PNG that was analyzed
+  thumbnail: Blob;
+}
+
+// --- Solver backends ---
+
+export type SolverBackendKind = 'cpu' | 'webgl2';
+
+// Inner cell counts of a rectangular grid. Cells are square, so width / height follows the domain's aspect ratio.
+export interface GridSize {
+  width: number;
+  height: number;
+}
+
+// Common surface of the CPU and GPU fluid solvers.
+// Grids are (width+2) x (height+2) with a one-cell boundary ring, indexed x + (width+2) * y.
+// Velocity, heat and obstacles use `size`; the dye channels use `dyeSize`.
+// Splat coordinates are always given on the velocity grid.
+export interface FluidBackend {
+  readonly kind: SolverBackendKind;
+  readonly size: GridSize;
+  readonly dyeSize: GridSize;
+  // Apply the tunable parts of the config (viscosity, diffusion, forces)
+  configure(config: SimulationConfig): void;
+  step(iter: number, fadeRate: number): void;
+  splat(splat: Splat): void;
+  // Copy the dye channels and obstacle mask into the frame's arrays
+  readDye(target: DyeFrame): void;
+  // Copy velocity and the last projection's pressure and divergence, for the flow render styles
+  readFlow(target: FlowFields): void;
+  // Full copy of the simulation fields, and its inverse (state sizes must match)
+  readState(): SolverState;
+  writeState(state: SolverState): void;
+  clear(): void;
+  clearObstacles(): void;
+  dispose(): void;
+}
+
+// Every field needed to rebuild a simulation, in the padded layout (dye on its own grid)
+export interface SolverState {
+  size: GridSize;
+  dyeSize: GridSize;
+  densityR: Float32Array;
+  densityG: Float32Array;
+  densityB: Float32Array;
+  Vx: Float32Array;
+  Vy: Float32Array;
+  temperature: Float32Array;
+  obstacles: Uint8Array;
+}
+
+// A SolverState packed into one compressed buffer (see utils/snapshot.ts).
+// Mostly-empty fields (no smoke, still air) deflate to a small fraction of their raw size.
+export interface Snapshot {
+  size: GridSize;
+  dyeSize: GridSize;
+  data: Uint8Array;
+}
+
+// --- Stroke recordings ---
+
+// One brush sample from a pointer, as handled by App's handleMove
+export interface BrushEvent {
+  step: number; // Simulation steps taken (since the recording started) before this event applies
+  x: number; // Grid position on the velocity grid
+  y: number;
+  dx: number; // Pointer movement since the previous sample, in grid cells
+  dy: number;
+  mode: ToolMode;
+  brushSize: number; // After pressure, tilt and speed
+  density: number; // Dye multiplier from the brush, pressure, tilt and speed (1 = a slow mouse drag)
+  force: number; // From the tool's BrushTuning
+  falloff: number;
+  shape: BrushShape;
+  jitter: number; // 0-1, see BrushPreset
+  color: RGBColor;
+}
+
+// The tools that paint with the brush engine, each tuned separately
+export type BrushTool = ToolMode.SMOKE | ToolMode.WIND | ToolMode.ERASER;
+
+export interface BrushTuning {
+  force: number; // Velocity added per cell of pointer movement
+  falloff: number; // 0 = hard-edged disc, 1 = full Gaussian
+}
+
+// What a pointer reports besides its position, as read from a PointerEvent
+export interface PointerSample {
+  pointerType: string; // 'mouse', 'pen' or 'touch'
+  pressure: number; // 0-1, 0.5 for a pressed mouse button
+  tiltX: number; // Degrees, -90 to 90
+  tiltY: number;
+  speed: number; // Grid cells per 60 Hz frame
+}
+
+// Everything needed to replay a piece from an empty canvas
+export interface StrokeRecording {
+  version: number;
+  dt: number;
+  config: SimulationConfig;
+  size: GridSize; // Grids the strokes were recorded on
+  dyeSize: GridSize;
+  steps: number; // Length of the recording in simulation steps
+  events: BrushEvent[];
+  emitters: Emitter[]; // Active for the whole recording
+}
+
+// --- Brush presets ---
+
+// 'gaussian' is a fully soft disc, 'ring' a hollow circle and 'line' a flat calligraphy nib
+export type BrushShape = 'disc' | 'gaussian' | 'ring' | 'line';
+
+// A named brush: the tool it paints with and everything about how it paints
+export interface BrushPreset {
+  id: string;
+  name: string;
+  mode: ToolMode; // Any tool but EMITTER
+  shape: BrushShape;
+  size: number; // Same units as the toolbar brush size
+  density: number; // Dye multiplier
+  force: number; // Becomes the tool's BrushTuning force
+  jitter: number; // 0-1, how far each stamp scatters from the stroke (1 = up to a brush diameter)
+  color: string; // #rrggbb
+}
+
+// --- Emitters ---
+
+export type EmitterKind = 'smoke' | 'wind' | 'sink';
+
+// 'sweep' swings the direction back and forth, 'pulse' varies the rate
+export type OscillationKind = 'none' | 'sweep' | 'pulse';
+
+// A persistent source or sink, applied before every simulation step
+export interface Emitter {
+  id: number;
+  kind: EmitterKind;
+  x: number; // Position as a fraction of the domain's width / height, so emitters stay put when the grids change
+  y: number;
+  angle: number; // Outflow direction in degrees, 0 = right, 90 = down (sources only)
+  rate: number; // 0-1: dye and push for sources, how much is drained and pulled in for sinks
+  radius: number; // In brush size units
+  color: string; // #rrggbb (smoke only)
+  oscillation: OscillationKind;
+  amplitude: number; // Degrees of swing for 'sweep', depth (0-1) for 'pulse'
+  period: number; // Seconds per oscillation
+}
+
+// --- Project files ---
+
+// Toolbar state saved with a project
+export interface ToolSettings {
+  mode: ToolMode;
+  brushSize: number;
+  smokeColor: string; // #rrggbb
+  tuning: Record<BrushTool, BrushTuning>;
+  shape: BrushShape;
+  density: number;
+  jitter: number;
+}
+
+// Everything needed to pick a piece up where it was left
+export interface Project {
+  config: SimulationConfig;
+  tools: ToolSettings;
+  render: RenderSettings;
+  emitters: Emitter[];
+  snapshot: Snapshot;
+}
+
+// --- Rendering ---
+
+export type ColormapName = 'fire' | 'ice' | 'viridis' | 'custom';
+
+export interface RenderSettings {
+  style: string; // Id of a style registered in utils/renderStyles.ts
+  colormap: ColormapName; // Used by the styles that map one value to a color
+  customStops: string[]; // #rrggbb, evenly spaced from low to high, for the 'custom' colormap
+  overlays: OverlaySettings;
+}
+
+// Velocity visualizations drawn on top of the render style
+export interface OverlaySettings {
+  arrows: boolean;
+  streamlines: boolean;
+  particles: boolean; // Massless tracers carried by the flow
+  particleCount: number;
+  particleLifetime: number; // Seconds before a tracer respawns somewhere else
+}
+
+// --- Simulation worker protocol ---
+
+// A brush stamp, applied to every fluid cell within `radius` of (x, y)
+// `falloff` (0-1, default 0) softens the disc's rim with a Gaussian, see splatWeight
+export type Splat =
+  | { kind: 'velocity'; x: number; y: number; radius: number; dx: number; dy: number; falloff?: number }
+  | { kind: 'density'; x: number; y: number; radius: number; amount: number; color: RGBColor; heat: number; falloff?: number }
+  | { kind: 'erase'; x: number; y: number; radius: number; falloff?: number }
+  // Scales the dye down, keeping `keep` of it (sinks)
+  | { kind: 'drain'; x: number; y: number; radius: number; keep: number }
+  | { kind: 'obstacle'; x: number; y: number; radius: number; solid: boolean };
+
+// Dye snapshot handed from the worker to the renderer. The arrays are transferred, not copied.
+export interface DyeFrame {
+  size: GridSize; // Velocity grid, obstacles are (width+2) x (height+2)
+  dyeSize: GridSize; // Dye grid, dye channels are (width+2) x (height+2)
+  step: number; // Number of simulation steps taken so far
+  densityR: Float32Array;
+  densityG: Float32Array;
+  densityB: Float32Array;
+  obstacles: Uint8Array;
+  flow: FlowFields | null; // Only included when requested
+}
+
+// Velocity-grid fields shown by the flow and debug render styles
+export interface FlowFields {
+  Vx: Float32Array;
+  Vy: Float32Array;
+  pressure: Float32Array; // From the last pressure solve
+  divergence: Float32Array; // Of the velocity before that solve
+}
+
+// Main thread -> worker
+export type SolverRequest =
+  // `backend` is a preference, the worker falls back to the CPU if it cannot start the GPU solver
+  // `aspect` is the domain's width / height, the grids are shaped to match it
+  | { type: 'init'; config: SimulationConfig; dt: number; backend: SolverBackendKind; aspect: number }
+  // Apply the queued splats, optionally advance one step, then answer with a 'frame'.
+  // `recycled` hands a previously received frame back so its buffers can be reused.
+  // `snapshot` records the state after the splats (i.e. at the end of a stroke) in the undo history.
+  // `flow` adds the FlowFields to the frame.
+  | { type: 'step'; splats: Splat[]; advance: boolean; recycled: DyeFrame | null; snapshot: boolean; flow: boolean }
+  // Apply a new config; a resolution change rebuilds the solver and resamples its fields
+  | { type: 'configure'; config: SimulationConfig }
+  // The display changed shape; rebuilds the solver when the grid dimensions change
+  | { type: 'resize'; aspect: number }
+  | { type: 'reset' }
+  // Replace the emitters applied before every step
+  | { type: 'emitters'; emitters: Emitter[] }
+  | { type: 'undo' }
+  | { type: 'redo' }
+  // Start replaying a recording on a fresh solver built from its config and grids, or stop with null
+  | { type: 'replay'; recording: StrokeRecording | null }
+  // Read the whole state for a project file, answered with a 'saved'
+  | { type: 'save' }
+  // Open a project: apply its config, write its state (resampled to the current grids) and start a fresh undo history
+  | { type: 'load'; config: SimulationConfig; snapshot: Snapshot }
+  // Put back a state from 'save' (resampled to the current grids), leaving the config and undo history alone
+  | { type: 'restore'; snapshot: Snapshot };
+
+// Worker -> main thread
+export type SolverResponse =
+  | { type: 'ready'; backend: SolverBackendKind; size: GridSize; dyeSize: GridSize }
+  | { type: 'frame'; frame: DyeFrame }
+  | { type: 'history'; status: HistoryStatus }
+  // The replay reached the end of its recording (or was stopped)
+  | { type: 'replayEnd' }
+  // Answer to 'save', null if the state could not be read
+  | { type: 'saved'; snapshot: Snapshot | null };
+
+export interface HistoryStatus {
+  canUndo: boolean;
+  canRedo: boolean;
+  bytes: number; // Compressed size of all held snapshots
+}
+
+// --- Export ---
+
+export type ExportFormat = 'webm' | 'gif' | 'png';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  start: number; // Seconds of simulation skipped before the first frame (GIF only)
+  duration: number; // Seconds
+  fps: number;
+  width: number; // Output size in pixels
+  height: number;
+  transparent: boolean; // Leave the background clear (PNG only)
+}
@@ -0,0 +1,43 @@
+// IndexedDB gallery of past analyses, newest first
+import { AnalysisEntry } from '../types';
+import { ANALYSES_STORE, withStore } from './database';
+import { parseCritiqueDetails } from '../services/analysisPrompt';
+
+// Oldest entries are dropped past this, so the images don't pile up forever
+export const MAX_ANALYSES = 60;
+const THUMBNAIL_WIDTH = 240;
+
+const makeThumbnail = async (image: Blob): Promise<Blob> => {
+  const bitmap = await createImageBitmap(image);
+  const width = Math.min(THUMBNAIL_WIDTH, bitmap.width);
+  const height = Math.max(1, Math.round((bitmap.height / bitmap.width) * width));
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not create a thumbnail');
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+  return canvas.convertToBlob({ type: 'image/jpeg', quality: 0.8 });
+};
+
+// Store an analysis with the frame it was made from; returns the stored entry
+export const addAnalysis = async (entry: Omit<AnalysisEntry, 'id' | 'thumbnail'>): Promise<AnalysisEntry> => {
+  const thumbnail = await makeThumbnail(entry.image);
+  const id = await withStore(ANALYSES_STORE, 'readwrite', store => store.add({ ...entry, thumbnail }));
+
+  const keys = await withStore(ANALYSES_STORE, 'readonly', store => store.getAllKeys());
+  // Keys grow with each add, so the first ones are the oldest
+  for (const key of keys.slice(0, Math.max(0, keys.length - MAX_ANALYSES))) {
+    await withStore(ANALYSES_STORE, 'readwrite', store => store.delete(key));
+  }
+  return { ...entry, id: id as number, thumbnail };
+};
+
+export const listAnalyses = async (): Promise<AnalysisEntry[]> => {
+  const entries = await withStore<AnalysisEntry[]>(ANALYSES_STORE, 'readonly', store => store.getAll());
+  // Entries saved before critiques had shapes, a palette and suggestions get empty ones
+  return entries.reverse().map(entry => ({ ...entry, result: { ...entry.result, ...parseCritiqueDetails(entry.result) } }));
+};
+
+export const deleteAnalysis = async (id: number) => {
+  await withStore(ANALYSES_STORE, 'readwrite', store => store.delete(id));
+};
@@ -0,0 +1,67 @@
+import { BoundaryConditions, EdgeBoundary, EdgeKind, Emitter } from '../types';
+import { DEFAULT_CONFIG } from '../constants';
+import { createEmitter } from './emitters';
+import { isNumber, isOneOf, isRecord } from './validate';
+
+export const EDGES: (keyof BoundaryConditions)[] = ['left', 'right', 'top', 'bottom'];
+
+export const OPPOSITE_EDGE: Record<keyof BoundaryConditions, keyof BoundaryConditions> = {
+  left: 'right',
+  right: 'left',
+  top: 'bottom',
+  bottom: 'top'
+};
+
+export const EDGE_KINDS: { kind: EdgeKind; label: string }[] = [
+  { kind: 'wall', label: 'Wall' },
+  { kind: 'noslip', label: 'No-slip wall' },
+  { kind: 'inflow', label: 'Inflow' },
+  { kind: 'outflow', label: 'Outflow' },
+  { kind: 'periodic', label: 'Periodic' }
+];
+
+// Periodic edges only make sense in pairs; a lone one is treated as a wall.
+// Both solvers run on the resolved conditions so they agree on every edge.
+export const resolveBoundaries = (boundaries: BoundaryConditions): BoundaryConditions => {
+  const resolved = { ...boundaries };
+  for (const edge of EDGES) {
+    if (boundaries[edge].kind === 'periodic' && boundaries[OPPOSITE_EDGE[edge]].kind !== 'periodic') {
+      resolved[edge] = { ...boundaries[edge], kind: 'wall' };
+    }
+  }
+  return resolved;
+};
+
+// Boundaries read from a file; an edge that's missing or malformed keeps its default
+export const parseBoundaries = (value: unknown): BoundaryConditions => {
+  const stored = isRecord(value) ? value : {};
+  const parseEdge = (edge: keyof BoundaryConditions): EdgeBoundary => {
+    const fallback = DEFAULT_CONFIG.boundaries[edge];
+    const boundary = stored[edge];
+    if (!isRecord(boundary)) return fallback;
+    return {
+      kind: isOneOf(boundary.kind, EDGE_KINDS.map(k => k.kind)) ? boundary.kind : fallback.kind,
+      speed: isNumber(boundary.speed) && boundary.speed >= 0 && boundary.speed <= 1 ? boundary.speed : fallback.speed
+    };
+  };
+  return { left: parseEdge('left'), right: parseEdge('right'), top: parseEdge('top'), bottom: parseEdge('bottom') };
+};
+
+// Air blows in from the left and leaves on the right; the top and bottom are walls the flow slides along
+export const WIND_TUNNEL_BOUNDARIES: BoundaryConditions = {
+  left: { kind: 'inflow', speed: 0.1 },
+  right: { kind: 'outflow', speed: 0.1 },
+  top: { kind: 'wall', speed: 0.1 },
+  bottom: { kind: 'wall', speed: 0.1 }
+};
+
+const STREAK_COUNT = 9;
+
+// Thin smoke sources evenly spaced along the inlet, so the flow around painted shapes shows up as streak lines
+export const windTunnelStreaks = (firstId: number): Emitter[] =>
+  Array.from({ length: STREAK_COUNT }, (_, i) => ({
+    ...createEmitter(firstId + i, 'smoke', 0.02, (i + 1) / (STREAK_COUNT + 1), '#ffffff'),
+    angle: 0,
+    rate: 0.3,
+    radius: 1
+  }));
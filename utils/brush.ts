@@ -0,0 +1,137 @@
+import { BrushEvent, BrushShape, BrushTool, BrushTuning, GridSize, PointerSample, Splat, ToolMode } from '../types';
+import { DEFAULT_CONFIG } from '../constants';
+import { referenceSize } from './grid';
+
+// Safety cap on the velocity a single stamp adds, so a flick can't blow the solver up
+const MAX_STAMP_VELOCITY = 50;
+// Stamps for one sample, however far the pointer jumped
+const MAX_STAMPS = 64;
+
+export const BRUSH_TOOLS: { mode: BrushTool; label: string }[] = [
+  { mode: ToolMode.SMOKE, label: 'Smoke' },
+  { mode: ToolMode.WIND, label: 'Wind' },
+  { mode: ToolMode.ERASER, label: 'Eraser' }
+];
+
+export const isBrushTool = (mode: ToolMode): mode is BrushTool => BRUSH_TOOLS.some(tool => tool.mode === mode);
+
+// Tuning a stroke in `mode` paints with; the wall tools only edit the mask and ignore it
+export const toolTuning = (tuning: Record<BrushTool, BrushTuning>, mode: ToolMode): BrushTuning =>
+  isBrushTool(mode) ? tuning[mode] : { force: 0, falloff: 0 };
+
+// Small seeded generator, so jittered stamps land in the same places when a recording replays
+const seededRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// The discs one stamp of a shape is made of, as offsets from the stamp centre
+const shapeTips = (shape: BrushShape, radius: number): { ox: number; oy: number; radius: number }[] => {
+  if (shape === 'ring') {
+    const tip = Math.max(1, Math.round(radius / 3));
+    return Array.from({ length: 8 }, (_, i) => ({
+      ox: Math.cos((i * Math.PI) / 4) * radius * 0.75,
+      oy: Math.sin((i * Math.PI) / 4) * radius * 0.75,
+      radius: tip
+    }));
+  }
+  if (shape === 'line') {
+    // A nib held at 45 degrees: broad strokes towards the bottom right, hairlines towards the top right
+    const tip = Math.max(1, Math.round(radius / 4));
+    return Array.from({ length: 5 }, (_, i) => {
+      const along = ((i - 2) * radius) / 2 / Math.SQRT2;
+      return { ox: along, oy: -along, radius: tip };
+    });
+  }
+  return [{ ox: 0, oy: 0, radius }];
+};
+
+// Turn one brush sample into the splats it stamps on a grid of the given size.
+// Shared by live input and replays so both produce exactly the same splats.
+//
+// The sample covers the segment the pointer moved along since the previous one, so stamps are laid
+// along it at most half a radius apart: a fast drag paints a continuous stroke instead of separate blobs.
+// The sample's push and dye are shared between its stamps, so the stroke carries the same momentum
+// and ink however the pointer events happen to be spaced. Recordings from before interpolation replay
+// with `interpolate` off: one stamp per sample, as they were drawn.
+export const brushSplats = (event: Omit<BrushEvent, 'step'>, size: GridSize, interpolate = true): Splat[] => {
+  const { x, y, mode } = event;
+  const falloff = event.shape === 'gaussian' ? 1 : event.falloff;
+
+  // Brush size and force are tuned for the default grid; scale them so
+  // strokes look the same on finer (GPU) grids
+  const gridScale = referenceSize(size) / DEFAULT_CONFIG.resolution;
+  const radius = Math.round(event.brushSize * gridScale);
+  const tips = shapeTips(event.shape, radius);
+
+  const spacing = Math.max(1, radius / 2);
+  const stamps = interpolate ? Math.min(MAX_STAMPS, Math.max(1, Math.ceil(Math.hypot(event.dx, event.dy) / spacing))) : 1;
+  const clamp = (value: number) => Math.max(-MAX_STAMP_VELOCITY, Math.min(MAX_STAMP_VELOCITY, value));
+  const dx = clamp((event.dx / gridScale) * event.force / stamps);
+  const dy = clamp((event.dy / gridScale) * event.force / stamps);
+  const random = seededRandom(Math.imul(Math.round(x * 1024), 73856093) ^ Math.imul(Math.round(y * 1024), 19349663));
+
+  const splats: Splat[] = [];
+  // Walk from just past the previous sample up to this one, which the next segment starts from
+  for (let i = stamps - 1; i >= 0; i--) {
+    let cx = x - (event.dx * i) / stamps;
+    let cy = y - (event.dy * i) / stamps;
+    if (event.jitter > 0) {
+      const angle = random() * 2 * Math.PI;
+      const distance = Math.sqrt(random()) * event.jitter * 2 * radius;
+      cx += Math.cos(angle) * distance;
+      cy += Math.sin(angle) * distance;
+    }
+
+    for (const tip of tips) {
+      const sx = cx + tip.ox;
+      const sy = cy + tip.oy;
+
+      if (mode === ToolMode.WALL || mode === ToolMode.WALL_ERASER) {
+        // Wall tools only edit the obstacle mask and leave the flow alone
+        splats.push({ kind: 'obstacle', x: sx, y: sy, radius: tip.radius, solid: mode === ToolMode.WALL });
+        continue;
+      }
+
+      // Apply Velocity to all tools to create movement
+      splats.push({ kind: 'velocity', x: sx, y: sy, radius: tip.radius, dx, dy, falloff });
+      if (mode === ToolMode.SMOKE) {
+        // Fresh smoke is hot, buoyancy makes it rise when enabled
+        splats.push({
+          kind: 'density',
+          x: sx,
+          y: sy,
+          radius: tip.radius,
+          amount: (150 * event.density) / stamps,
+          color: event.color,
+          heat: 1 / stamps,
+          falloff
+        });
+      } else if (mode === ToolMode.ERASER) {
+        splats.push({ kind: 'erase', x: sx, y: sy, radius: tip.radius, falloff });
+      }
+    }
+  }
+  return splats;
+};
+
+// Largest factor pointerDynamics scales a brush by: full pressure, full tilt and top speed
+export const MAX_DYNAMICS_SIZE = 1.5 * 1.75 * 1.3;
+
+// Pointer speed (cells per frame) past which strokes stop getting thinner
+const MAX_SPEED = 12;
+
+// Scale the brush by what the pointer reports. Pressing harder makes a bigger, denser stamp, tilting a pen lays
+// down a broader but fainter one, and fast strokes spread their dye thinner. A slow mouse drag maps to 1 for both.
+export const pointerDynamics = (sample: PointerSample): { size: number; density: number } => {
+  // Mice report a fixed 0.5 while pressed; touchscreens without pressure sensing report 0
+  const pressure = sample.pointerType === 'mouse' || sample.pressure <= 0 ? 0.5 : sample.pressure;
+  const tilt = Math.min(Math.hypot(sample.tiltX, sample.tiltY) / 90, 1);
+  const speed = Math.min(sample.speed, MAX_SPEED) / MAX_SPEED;
+  return {
+    size: (0.5 + pressure) * (1 + 0.75 * tilt) * (1 + 0.3 * speed),
+    density: (0.5 + pressure) * (1 - 0.4 * tilt) * (1 - 0.5 * speed)
+  };
+};
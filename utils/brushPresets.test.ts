@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { ToolMode } from '../types';
+import { BUILT_IN_PRESETS, parsePresets, serializePresets } from './brushPresets';
+
+describe('brush presets', () => {
+  it('round-trips an exported file', () => {
+    expect(parsePresets(JSON.parse(serializePresets(BUILT_IN_PRESETS)))).toEqual(BUILT_IN_PRESETS);
+  });
+
+  it('accepts a bare array', () => {
+    expect(parsePresets(BUILT_IN_PRESETS.slice(0, 2))).toEqual(BUILT_IN_PRESETS.slice(0, 2));
+  });
+
+  it('reads nothing from values that are not preset lists', () => {
+    expect(parsePresets(null)).toEqual([]);
+    expect(parsePresets('presets')).toEqual([]);
+    expect(parsePresets({ presets: 'none' })).toEqual([]);
+  });
+
+  it('drops entries without an id, name, tool or color', () => {
+    const [preset] = BUILT_IN_PRESETS;
+    expect(
+      parsePresets([
+        { ...preset, id: 3 },
+        { ...preset, name: undefined },
+        { ...preset, mode: ToolMode.EMITTER },
+        { ...preset, mode: 'paint' },
+        { ...preset, color: 'white' },
+        'preset',
+        preset
+      ])
+    ).toEqual([preset]);
+  });
+
+  it('clamps numbers to the brush controls and defaults unknown shapes', () => {
+    const [preset] = parsePresets([
+      { ...BUILT_IN_PRESETS[0], size: 1000.4, density: -2, force: 'strong', jitter: 5, shape: 'star' }
+    ]);
+    expect(preset).toMatchObject({ size: 20, density: 0.1, force: 5, jitter: 1, shape: 'disc' });
+  });
+});
@@ -0,0 +1,72 @@
+import { BrushPreset, BrushShape, ToolMode } from '../types';
+import { BRUSH_LIMITS } from '../constants';
+import { clampNumber, isHexColor, isOneOf, isRecord } from './validate';
+
+const STORAGE_KEY = 'aerograph.brushPresets';
+
+export const BRUSH_SHAPES: { kind: BrushShape; label: string }[] = [
+  { kind: 'disc', label: 'Disc' },
+  { kind: 'gaussian', label: 'Soft' },
+  { kind: 'ring', label: 'Ring' },
+  { kind: 'line', label: 'Line' }
+];
+
+// Shipped with the app and listed before the user's own, which live in local storage
+export const BUILT_IN_PRESETS: BrushPreset[] = [
+  { id: 'soft-smoke', name: 'Soft Smoke', mode: ToolMode.SMOKE, shape: 'gaussian', size: 6, density: 1, force: 5, jitter: 0, color: '#ffffff' },
+  { id: 'ink-pen', name: 'Ink Pen', mode: ToolMode.SMOKE, shape: 'disc', size: 2, density: 2, force: 2, jitter: 0, color: '#9fd3ff' },
+  { id: 'smoke-ring', name: 'Smoke Ring', mode: ToolMode.SMOKE, shape: 'ring', size: 8, density: 1.2, force: 4, jitter: 0, color: '#ffb36b' },
+  { id: 'spray', name: 'Spray', mode: ToolMode.SMOKE, shape: 'disc', size: 2, density: 0.6, force: 3, jitter: 1, color: '#ffffff' },
+  { id: 'calligraphy', name: 'Calligraphy', mode: ToolMode.SMOKE, shape: 'line', size: 6, density: 1.5, force: 3, jitter: 0, color: '#f472b6' },
+  { id: 'gust', name: 'Gust', mode: ToolMode.WIND, shape: 'gaussian', size: 10, density: 1, force: 12, jitter: 0, color: '#ffffff' },
+  { id: 'soft-eraser', name: 'Soft Eraser', mode: ToolMode.ERASER, shape: 'gaussian', size: 8, density: 1, force: 1, jitter: 0, color: '#ffffff' },
+  { id: 'wall-pen', name: 'Wall Pen', mode: ToolMode.WALL, shape: 'disc', size: 2, density: 1, force: 5, jitter: 0, color: '#ffffff' }
+];
+
+const parsePreset = (value: unknown): BrushPreset | null => {
+  if (!isRecord(value)) return null;
+  const { id, name, mode, shape, color } = value;
+  const modes = Object.values(ToolMode).filter(m => m !== ToolMode.EMITTER);
+  if (typeof id !== 'string' || typeof name !== 'string' || !isOneOf(mode, modes) || !isHexColor(color)) return null;
+  const { size, density, force, jitter } = BRUSH_LIMITS;
+  return {
+    id,
+    name,
+    mode,
+    shape: isOneOf(shape, BRUSH_SHAPES.map(s => s.kind)) ? shape : 'disc',
+    size: Math.round(clampNumber(value.size, size.min, size.max, 4)),
+    density: clampNumber(value.density, density.min, density.max, 1),
+    force: clampNumber(value.force, force.min, force.max, 5),
+    jitter: clampNumber(value.jitter, jitter.min, jitter.max, 0),
+    color
+  };
+};
+
+// Presets read from storage or an imported file. Numbers are clamped to what the brush controls allow;
+// entries without an id, name, tool or #rrggbb color are dropped.
+// Accepts a bare array or an exported file's { presets } wrapper.
+export const parsePresets = (value: unknown): BrushPreset[] => {
+  const list = Array.isArray(value) ? value : isRecord(value) ? value.presets : undefined;
+  if (!Array.isArray(list)) return [];
+  return list.map(parsePreset).filter((preset): preset is BrushPreset => preset !== null);
+};
+
+export const serializePresets = (presets: BrushPreset[]): string => JSON.stringify({ version: 1, presets }, null, 2);
+
+// Storage can be unavailable (private browsing) or hold something stale; either way start from nothing
+export const loadUserPresets = (): BrushPreset[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? parsePresets(JSON.parse(stored)) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveUserPresets = (presets: BrushPreset[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+  } catch (err) {
+    console.warn('Could not save brush presets', err);
+  }
+};
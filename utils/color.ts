@@ -0,0 +1,14 @@
+import { RGBColor } from '../types';
+
+// Convert an <input type="color"> value (#rrggbb) into channel values
+export const hexToRgb = (hex: string): RGBColor => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return {
+    r: (value >> 16) & 0xff,
+    g: (value >> 8) & 0xff,
+    b: value & 0xff
+  };
+};
+
+export const rgbToHex = ({ r, g, b }: RGBColor): string =>
+  '#' + [r, g, b].map(c => Math.round(c).toString(16).padStart(2, '0')).join('');
@@ -0,0 +1,34 @@
+import { ColormapName, RenderSettings } from '../types';
+import { hexToRgb } from './color';
+
+// Gradient stops from low to high, evenly spaced
+export const COLORMAPS: Record<Exclude<ColormapName, 'custom'>, string[]> = {
+  fire: ['#000000', '#5a0000', '#c81e00', '#ff8c00', '#ffdc3c', '#ffffff'],
+  ice: ['#000000', '#0a1a3c', '#1e50a0', '#50a0dc', '#b4e6ff', '#ffffff'],
+  viridis: ['#440154', '#482878', '#3e4989', '#31688e', '#26828e', '#1f9e89', '#35b779', '#6ece58', '#b5de2b', '#fde725']
+};
+
+// Signed fields: negative is blue, zero is black, positive is red
+export const DIVERGING_STOPS = ['#bfdbfe', '#2563eb', '#000000', '#dc2626', '#fecaca'];
+
+export const COLORMAP_SIZE = 256;
+
+// Sample the gradient into a lookup table of COLORMAP_SIZE RGB entries
+export const buildColormap = (stops: string[]): Uint8Array => {
+  const colors = (stops.length > 0 ? stops : ['#000000', '#ffffff']).map(hexToRgb);
+  const table = new Uint8Array(COLORMAP_SIZE * 3);
+  for (let i = 0; i < COLORMAP_SIZE; i++) {
+    const position = (i / (COLORMAP_SIZE - 1)) * (colors.length - 1);
+    const index = Math.min(Math.floor(position), colors.length - 2);
+    const t = colors.length > 1 ? position - index : 0;
+    const a = colors[Math.max(index, 0)];
+    const b = colors[Math.min(index + 1, colors.length - 1)];
+    table[i * 3] = a.r + (b.r - a.r) * t;
+    table[i * 3 + 1] = a.g + (b.g - a.g) * t;
+    table[i * 3 + 2] = a.b + (b.b - a.b) * t;
+  }
+  return table;
+};
+
+export const colormapStops = (settings: RenderSettings) =>
+  settings.colormap === 'custom' ? settings.customStops : COLORMAPS[settings.colormap];
@@ -0,0 +1,10 @@
+// Byte-level compression on top of the browser's built-in streams (also available in workers)
+
+const pipe = async (bytes: Uint8Array, transform: CompressionStream | DecompressionStream) => {
+  const stream = new Blob([bytes]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+export const compress = (bytes: Uint8Array) => pipe(bytes, new CompressionStream('deflate-raw'));
+
+export const decompress = (bytes: Uint8Array) => pipe(bytes, new DecompressionStream('deflate-raw'));
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { createEmitter, parseEmitters } from './emitters';
+
+describe('stored emitters', () => {
+  it('keeps valid emitters as they are', () => {
+    const emitters = [createEmitter(1, 'smoke', 0.5, 0.9, '#ff8800'), { ...createEmitter(2, 'sink', 0.2, 0.3, '#ffffff'), oscillation: 'pulse' }];
+    expect(parseEmitters(JSON.parse(JSON.stringify(emitters)))).toEqual(emitters);
+  });
+
+  it('reads nothing from values that are not lists', () => {
+    expect(parseEmitters(undefined)).toEqual([]);
+    expect(parseEmitters({ 0: createEmitter(1, 'smoke', 0.5, 0.5, '#ffffff') })).toEqual([]);
+  });
+
+  it('drops entries without an id, kind or position', () => {
+    const emitter = createEmitter(1, 'wind', 0.5, 0.5, '#ffffff');
+    expect(parseEmitters([{ ...emitter, id: '1' }, { ...emitter, kind: 'fan' }, { ...emitter, x: null }, 42, emitter])).toEqual([emitter]);
+  });
+
+  it('clamps every field to what the emitter panel allows', () => {
+    const [emitter] = parseEmitters([
+      { id: 4, kind: 'smoke', x: -3, y: 8, angle: 720, rate: 2, radius: 0, color: 'orange', oscillation: 'spin', amplitude: 400, period: 0 }
+    ]);
+    expect(emitter).toEqual({
+      id: 4,
+      kind: 'smoke',
+      x: 0,
+      y: 1,
+      angle: 180,
+      rate: 1,
+      radius: 1,
+      color: '#ffffff',
+      oscillation: 'none',
+      amplitude: 90,
+      period: 0.25
+    });
+  });
+});
@@ -0,0 +1,245 @@
+import { DyeFrame, GridSize, OverlaySettings } from '../types';
+import { STEPS_PER_SECOND, TIMESTEP } from '../constants';
+import { paddedLength, referenceSize } from './grid';
+
+// Positions are continuous coordinates on the padded velocity grid: cell i spans [i, i + 1), its centre is i + 0.5
+
+const ARROW_SPACING = 32; // Pixels between arrows on the target
+const STREAMLINE_SPACING = 40; // Pixels between streamline seeds
+const STREAMLINE_STEPS = 24; // Integration steps each way from a seed
+const STREAMLINE_STEP_PIXELS = 3; // Length of one integration step on the target
+const MAX_STEPS_PER_FRAME = 8; // Tracers catch up at most this many steps after a stall
+const MIN_SPEED = 1e-4; // Slower than this counts as still air
+
+// Draws velocity arrows, streamlines and tracer particles over a rendered frame.
+// Velocity is copied out of each frame, so drawing never touches buffers that went back to the worker.
+export class FlowOverlay {
+  private settings: OverlaySettings;
+  private size: GridSize | null = null;
+  private Vx = new Float32Array(0);
+  private Vy = new Float32Array(0);
+  private obstacles = new Uint8Array(0);
+  private maxSpeed = 0;
+  private streamlines: Path2D | null = null; // In grid units, rebuilt for each new frame when shown
+
+  // Tracers: x, y and age in steps, packed per particle
+  private particles = new Float32Array(0);
+  private lastStep = -1;
+
+  constructor(settings: OverlaySettings) {
+    this.settings = settings;
+  }
+
+  setSettings(settings: OverlaySettings) {
+    if (settings.particleCount !== this.settings.particleCount) this.particles = new Float32Array(0);
+    this.settings = settings;
+  }
+
+  get active() {
+    const { arrows, streamlines, particles } = this.settings;
+    return arrows || streamlines || particles;
+  }
+
+  update(frame: DyeFrame) {
+    if (!this.active || !frame.flow) return;
+    const length = paddedLength(frame.size);
+    if (!this.size || this.size.width !== frame.size.width || this.size.height !== frame.size.height) {
+      this.size = frame.size;
+      this.Vx = new Float32Array(length);
+      this.Vy = new Float32Array(length);
+      this.obstacles = new Uint8Array(length);
+      this.particles = new Float32Array(0);
+    }
+    this.Vx.set(frame.flow.Vx);
+    this.Vy.set(frame.flow.Vy);
+    this.obstacles.set(frame.obstacles);
+    let maxSpeed = MIN_SPEED;
+    for (let i = 0; i < length; i++) maxSpeed = Math.max(maxSpeed, Math.hypot(this.Vx[i], this.Vy[i]));
+    this.maxSpeed = maxSpeed;
+    this.streamlines = null;
+
+    if (this.settings.particles) {
+      // Frames know how far the simulation got, so tracers stop with it when paused
+      const steps = this.lastStep < 0 || frame.step < this.lastStep ? 0 : frame.step - this.lastStep;
+      this.advanceParticles(Math.min(steps, MAX_STEPS_PER_FRAME));
+    }
+    this.lastStep = frame.step;
+  }
+
+  draw(target: CanvasRenderingContext2D, width: number, height: number) {
+    if (!this.active || !this.size) return;
+    const columns = this.size.width + 2;
+    const rows = this.size.height + 2;
+    const scaleX = width / columns;
+    const scaleY = height / rows;
+
+    target.save();
+    target.lineCap = 'round';
+
+    if (this.settings.streamlines) {
+      if (!this.streamlines) this.streamlines = this.traceStreamlines(width, height);
+      target.setTransform(scaleX, 0, 0, scaleY, 0, 0);
+      target.lineWidth = 1 / Math.max(scaleX, scaleY);
+      target.strokeStyle = 'rgba(255, 255, 255, 0.35)';
+      target.stroke(this.streamlines);
+      target.setTransform(1, 0, 0, 1, 0, 0);
+    }
+
+    if (this.settings.arrows) {
+      target.strokeStyle = 'rgba(165, 243, 252, 0.75)';
+      target.lineWidth = 1.25;
+      target.beginPath();
+      for (let py = ARROW_SPACING / 2; py < height; py += ARROW_SPACING) {
+        for (let px = ARROW_SPACING / 2; px < width; px += ARROW_SPACING) {
+          const x = px / scaleX;
+          const y = py / scaleY;
+          if (this.isSolid(x, y)) continue;
+          const vx = this.sample(this.Vx, x, y);
+          const vy = this.sample(this.Vy, x, y);
+          const speed = Math.hypot(vx, vy);
+          // Longest arrow spans most of a grid slot
+          const length = (speed / this.maxSpeed) * ARROW_SPACING * 0.9;
+          if (length < 1) continue;
+          const dx = (vx / speed) * length;
+          const dy = (vy / speed) * length;
+          const tipX = px + dx / 2;
+          const tipY = py + dy / 2;
+          target.moveTo(px - dx / 2, py - dy / 2);
+          target.lineTo(tipX, tipY);
+          // Head
+          const head = Math.min(5, length * 0.4);
+          const angle = Math.atan2(dy, dx);
+          target.moveTo(tipX - head * Math.cos(angle - 0.5), tipY - head * Math.sin(angle - 0.5));
+          target.lineTo(tipX, tipY);
+          target.lineTo(tipX - head * Math.cos(angle + 0.5), tipY - head * Math.sin(angle + 0.5));
+        }
+      }
+      target.stroke();
+    }
+
+    if (this.settings.particles && this.particles.length > 0) {
+      target.fillStyle = 'rgba(103, 232, 249, 0.85)';
+      target.beginPath();
+      for (let p = 0; p < this.particles.length; p += 3) {
+        target.rect(this.particles[p] * scaleX - 0.75, this.particles[p + 1] * scaleY - 0.75, 1.5, 1.5);
+      }
+      target.fill();
+    }
+
+    target.restore();
+  }
+
+  // Bilinear sample of a velocity grid field
+  private sample(field: Float32Array, x: number, y: number) {
+    const { width, height } = this.size!;
+    const stride = width + 2;
+    const fx = Math.min(Math.max(x - 0.5, 0), width + 1);
+    const fy = Math.min(Math.max(y - 0.5, 0), height + 1);
+    const i0 = Math.min(Math.floor(fx), width);
+    const j0 = Math.min(Math.floor(fy), height);
+    const s = fx - i0;
+    const t = fy - j0;
+    const a = field[i0 + stride * j0];
+    const b = field[i0 + 1 + stride * j0];
+    const c = field[i0 + stride * (j0 + 1)];
+    const d = field[i0 + 1 + stride * (j0 + 1)];
+    return (a * (1 - s) + b * s) * (1 - t) + (c * (1 - s) + d * s) * t;
+  }
+
+  private isSolid(x: number, y: number) {
+    const { width, height } = this.size!;
+    const i = Math.floor(x);
+    const j = Math.floor(y);
+    if (i < 1 || j < 1 || i > width || j > height) return true;
+    return this.obstacles[i + (width + 2) * j] === 1;
+  }
+
+  // Cells moved per step per unit of velocity, the same scale the solver's advection uses
+  private get stepScale() {
+    return TIMESTEP * (referenceSize(this.size!) - 2);
+  }
+
+  private advanceParticles(steps: number) {
+    const { width, height } = this.size!;
+    const count = this.settings.particleCount;
+    const lifetime = Math.max(1, this.settings.particleLifetime * STEPS_PER_SECOND);
+    const respawn = (p: number) => {
+      // A few tries to land in open fluid
+      for (let attempt = 0; attempt < 8; attempt++) {
+        this.particles[p] = 1 + Math.random() * width;
+        this.particles[p + 1] = 1 + Math.random() * height;
+        if (!this.isSolid(this.particles[p], this.particles[p + 1])) break;
+      }
+    };
+
+    if (this.particles.length !== count * 3) {
+      this.particles = new Float32Array(count * 3);
+      for (let p = 0; p < this.particles.length; p += 3) {
+        respawn(p);
+        // Spread the ages so tracers don't all respawn at once
+        this.particles[p + 2] = Math.random() * lifetime;
+      }
+    }
+
+    const scale = this.stepScale;
+    for (let step = 0; step < steps; step++) {
+      for (let p = 0; p < this.particles.length; p += 3) {
+        const x = this.particles[p];
+        const y = this.particles[p + 1];
+        // Midpoint (RK2) integration
+        const mx = x + 0.5 * scale * this.sample(this.Vx, x, y);
+        const my = y + 0.5 * scale * this.sample(this.Vy, x, y);
+        const nx = x + scale * this.sample(this.Vx, mx, my);
+        const ny = y + scale * this.sample(this.Vy, mx, my);
+        const age = this.particles[p + 2] + 1;
+        if (age > lifetime || this.isSolid(nx, ny)) {
+          respawn(p);
+          this.particles[p + 2] = 0;
+        } else {
+          this.particles[p] = nx;
+          this.particles[p + 1] = ny;
+          this.particles[p + 2] = age;
+        }
+      }
+    }
+  }
+
+  // Integrate through the field from evenly spaced seeds, both ways, in steps of a few pixels
+  private traceStreamlines(width: number, height: number) {
+    const path = new Path2D();
+    const columns = this.size!.width + 2;
+    const rows = this.size!.height + 2;
+    const spacingX = (STREAMLINE_SPACING / width) * columns;
+    const spacingY = (STREAMLINE_SPACING / height) * rows;
+    const stepLength = (STREAMLINE_STEP_PIXELS / width) * columns;
+
+    const trace = (x: number, y: number, direction: number) => {
+      path.moveTo(x, y);
+      for (let step = 0; step < STREAMLINE_STEPS; step++) {
+        const vx = this.sample(this.Vx, x, y);
+        const vy = this.sample(this.Vy, x, y);
+        const speed = Math.hypot(vx, vy);
+        if (speed < this.maxSpeed * 0.02) break;
+        const mx = x + (direction * 0.5 * stepLength * vx) / speed;
+        const my = y + (direction * 0.5 * stepLength * vy) / speed;
+        const mvx = this.sample(this.Vx, mx, my);
+        const mvy = this.sample(this.Vy, mx, my);
+        const mspeed = Math.hypot(mvx, mvy);
+        if (mspeed < MIN_SPEED) break;
+        x += (direction * stepLength * mvx) / mspeed;
+        y += (direction * stepLength * mvy) / mspeed;
+        if (this.isSolid(x, y)) break;
+        path.lineTo(x, y);
+      }
+    };
+
+    for (let y = spacingY / 2; y < rows; y += spacingY) {
+      for (let x = spacingX / 2; x < columns; x += spacingX) {
+        if (this.isSolid(x, y)) continue;
+        trace(x, y, 1);
+        trace(x, y, -1);
+      }
+    }
+    return path;
+  }
+}
@@ -2,47 +2,249 @@
 // A lightweight implementation of Real-Time Fluid Dynamics for Games by Jos Stam
 // Adapted for TypeScript and React context
 
-export class FluidSolver {
-  size: number;
+import { RGBColor, FluidBackend, SimulationConfig, Splat, DyeFrame, FlowFields, SolverState, GridSize, BoundaryConditions, EdgeBoundary } from '../types';
+import { forEachSplatCell, scaleSplat } from './splats';
+import { paddedLength, referenceSize, sameSize } from './grid';
+import { resolveBoundaries } from './boundaries';
+import { DEFAULT_CONFIG } from '../constants';
+
+// Field kinds for set_bnd's `b`: 0 = scalar (dye, heat), 1 = x velocity, 2 = y velocity, 3 = pressure
+
+// Ghost cell value at a domain edge. `normal` is the velocity field pointing across the edge (1 or 2),
+// `inner` the adjacent interior cell, `wrapped` the interior cell on the far side of the domain and
+// `inflow` the signed velocity into the domain.
+const edgeValue = (b: number, edge: EdgeBoundary, normal: number, inner: number, wrapped: number, inflow: number) => {
+  switch (edge.kind) {
+    case 'periodic':
+      return wrapped;
+    case 'inflow':
+      // Clean, still air blown straight in
+      return b === normal ? inflow : b === 3 ? inner : 0;
+    case 'outflow':
+      // Everything carries on through; pressure is held at ambient so the flow can leave
+      return b === 3 ? 0 : inner;
+    case 'noslip':
+      return b === 1 || b === 2 ? -inner : inner;
+    default:
+      return b === normal ? -inner : inner;
+  }
+};
+
+// Wrap a backtraced position into [0.5, size + 0.5) on a periodic axis
+const wrap = (value: number, size: number) => ((((value - 0.5) % size) + size) % size) + 0.5;
+
+// One rectangular lattice of (W+2) x (H+2) cells and its view of the obstacle mask.
+// The velocity and dye fields each live on their own grid.
+class Grid {
+  W: number;
+  H: number;
+  mask: Uint8Array; // 1 = solid cell, 0 = fluid
+  solidCells: Int32Array = new Int32Array(0); // Indices of solid interior cells
+
+  constructor(size: GridSize, mask: Uint8Array) {
+    this.W = size.width;
+    this.H = size.height;
+    this.mask = mask;
+  }
+
+  // Coordinate flattening
+  IX(x: number, y: number) {
+    // Clamp coordinates
+    x = Math.max(0, Math.min(x, this.W + 1));
+    y = Math.max(0, Math.min(y, this.H + 1));
+    return x + (this.W + 2) * y;
+  }
+
+  rebuildSolidCells() {
+    const cells: number[] = [];
+    // Only the interior can hold obstacles; the outer ring is handled by the edge rules in set_bnd
+    for (let j = 1; j <= this.H; j++) {
+      for (let i = 1; i <= this.W; i++) {
+        if (this.mask[this.IX(i, j)]) cells.push(this.IX(i, j));
+      }
+    }
+    this.solidCells = Int32Array.from(cells);
+  }
+}
+
+export class FluidSolver implements FluidBackend {
+  readonly kind = 'cpu';
+  size: GridSize; // Velocity grid
+  dyeSize: GridSize; // Dye grid, may be finer than the velocity grid
   dt: number;
   diff: number;
   visc: number;
+  vorticity = 0; // Vorticity confinement strength (0 = off)
+  buoyancy = 0; // Upward lift per unit of temperature (0 = off)
+  cooling = 0; // Fraction of heat lost per step
+  boundaries: BoundaryConditions = DEFAULT_CONFIG.boundaries; // Resolved, see resolveBoundaries
   
-  s: Float32Array; // Density (smoke)
-  density: Float32Array; // Current Density
+  // Dye lives on its own padded dyeSize grid
+  s: Float32Array; // Scratch buffer shared by the dye channels
+  densityR: Float32Array; // Red dye
+  densityG: Float32Array; // Green dye
+  densityB: Float32Array; // Blue dye
   
   Vx: Float32Array; // Velocity X
   Vy: Float32Array; // Velocity Y
   Vx0: Float32Array; // Previous Velocity X
   Vy0: Float32Array; // Previous Velocity Y
 
-  constructor(size: number, diffusion: number, viscosity: number, dt: number) {
+  temperature: Float32Array; // Heat carried by the smoke, drives buoyancy (velocity grid)
+  private temperature0: Float32Array; // Scratch buffer for advecting heat
+  private curl: Float32Array; // Scratch buffer for vorticity confinement
+
+  obstacles: Uint8Array; // 1 = solid cell, 0 = fluid (velocity grid)
+  private obstaclesDirty = false; // Solid cell lists and the dye mask are rebuilt lazily
+
+  private grid: Grid; // Velocity grid
+  private dyeGrid: Grid;
+
+  constructor(size: GridSize, diffusion: number, viscosity: number, dt: number, dyeSize: GridSize = size) {
     this.size = size;
+    this.dyeSize = dyeSize;
     this.dt = dt;
     this.diff = diffusion;
     this.visc = viscosity;
     
-    const N = size;
-    const arraySize = (N + 2) * (N + 2);
+    const arraySize = paddedLength(size);
+    const dyeArraySize = paddedLength(dyeSize);
     
-    this.s = new Float32Array(arraySize);
-    this.density = new Float32Array(arraySize);
+    this.s = new Float32Array(dyeArraySize);
+    this.densityR = new Float32Array(dyeArraySize);
+    this.densityG = new Float32Array(dyeArraySize);
+    this.densityB = new Float32Array(dyeArraySize);
     this.Vx = new Float32Array(arraySize);
     this.Vy = new Float32Array(arraySize);
     this.Vx0 = new Float32Array(arraySize);
     this.Vy0 = new Float32Array(arraySize);
+    this.temperature = new Float32Array(arraySize);
+    this.temperature0 = new Float32Array(arraySize);
+    this.curl = new Float32Array(arraySize);
+    this.obstacles = new Uint8Array(arraySize);
+
+    this.grid = new Grid(size, this.obstacles);
+    // Same resolution: share the mask, otherwise keep a resampled copy
+    this.dyeGrid = new Grid(dyeSize, sameSize(dyeSize, size) ? this.obstacles : new Uint8Array(dyeArraySize));
   }
 
-  // Add density at a specific coordinate
-  addDensity(x: number, y: number, amount: number) {
-    const N = this.size;
-    const index = this.IX(x, y);
-    this.density[index] += amount;
+  configure(config: SimulationConfig) {
+    this.diff = config.diffusion;
+    this.visc = config.viscosity;
+    this.vorticity = config.vorticity;
+    this.buoyancy = config.buoyancy;
+    this.cooling = config.coolingRate;
+    this.boundaries = resolveBoundaries(config.boundaries);
+  }
+
+  // Stamp a brush splat over a disc of cells.
+  // Splats are given in velocity grid coordinates and rescaled for the dye grid.
+  splat(splat: Splat) {
+    const size = this.size;
+    const dyeSplat = scaleSplat(splat, size, this.dyeSize);
+
+    switch (splat.kind) {
+      case 'velocity':
+        forEachSplatCell(size, splat, (x, y, w) => this.addVelocity(x, y, splat.dx * w, splat.dy * w));
+        break;
+      case 'density':
+        // Uncapped density allows for "thick" smoke that survives diffusion
+        forEachSplatCell(this.dyeSize, dyeSplat, (x, y, w) => this.addDensity(x, y, splat.amount * w, splat.color));
+        // Heat is only advected and cooled while buoyancy is on; adding it otherwise would pile up unseen
+        if (this.buoyancy > 0) forEachSplatCell(size, splat, (x, y, w) => this.addTemperature(x, y, splat.heat * w));
+        break;
+      case 'erase':
+        forEachSplatCell(this.dyeSize, dyeSplat, (x, y, w) => this.eraseDensity(x, y, w));
+        break;
+      case 'drain':
+        forEachSplatCell(this.dyeSize, dyeSplat, (x, y) => {
+          const index = this.dyeGrid.IX(x, y);
+          this.densityR[index] *= splat.keep;
+          this.densityG[index] *= splat.keep;
+          this.densityB[index] *= splat.keep;
+        });
+        break;
+      case 'obstacle':
+        forEachSplatCell(size, splat, (x, y) => this.setObstacle(x, y, splat.solid));
+        if (splat.solid) {
+          // Nothing lives inside a wall
+          forEachSplatCell(this.dyeSize, dyeSplat, (x, y) => this.eraseDensity(x, y));
+        }
+        break;
+    }
+  }
+
+  readDye(target: DyeFrame) {
+    target.densityR.set(this.densityR);
+    target.densityG.set(this.densityG);
+    target.densityB.set(this.densityB);
+    target.obstacles.set(this.obstacles);
+  }
+
+  // The step's final projection leaves pressure in Vx0 and divergence in Vy0
+  readFlow(target: FlowFields) {
+    target.Vx.set(this.Vx);
+    target.Vy.set(this.Vy);
+    target.pressure.set(this.Vx0);
+    target.divergence.set(this.Vy0);
+  }
+
+  readState(): SolverState {
+    return {
+      size: this.size,
+      dyeSize: this.dyeSize,
+      densityR: this.densityR.slice(),
+      densityG: this.densityG.slice(),
+      densityB: this.densityB.slice(),
+      Vx: this.Vx.slice(),
+      Vy: this.Vy.slice(),
+      temperature: this.temperature.slice(),
+      obstacles: this.obstacles.slice()
+    };
+  }
+
+  writeState(state: SolverState) {
+    if (!sameSize(state.size, this.size) || !sameSize(state.dyeSize, this.dyeSize)) {
+      throw new Error('State grids do not match the solver grids');
+    }
+    this.densityR.set(state.densityR);
+    this.densityG.set(state.densityG);
+    this.densityB.set(state.densityB);
+    this.Vx.set(state.Vx);
+    this.Vy.set(state.Vy);
+    this.temperature.set(state.temperature);
+    this.obstacles.set(state.obstacles);
+    this.obstaclesDirty = true;
+  }
+
+  // Nothing to release, the arrays are garbage collected
+  dispose() {}
+
+  // Add dye of the given color at a specific dye grid coordinate
+  addDensity(x: number, y: number, amount: number, color: RGBColor) {
+    const index = this.dyeGrid.IX(x, y);
+    this.densityR[index] += amount * (color.r / 255);
+    this.densityG[index] += amount * (color.g / 255);
+    this.densityB[index] += amount * (color.b / 255);
     // Removed clamping to 255 to allow high density accumulation. 
     // This prevents smoke from "disappearing" when it diffuses over a large area.
     // Visual rendering clamps to 255 automatically via Uint8ClampedArray.
   }
 
+  // Remove dye at a specific dye grid coordinate, all of it at full strength
+  eraseDensity(x: number, y: number, strength = 1) {
+    const index = this.dyeGrid.IX(x, y);
+    const keep = 1 - strength;
+    this.densityR[index] *= keep;
+    this.densityG[index] *= keep;
+    this.densityB[index] *= keep;
+  }
+
+  // Add heat at a specific coordinate
+  addTemperature(x: number, y: number, amount: number) {
+    this.temperature[this.IX(x, y)] += amount;
+  }
+
   // Add velocity at a specific coordinate
   addVelocity(x: number, y: number, amountX: number, amountY: number) {
     const index = this.IX(x, y);
@@ -50,18 +252,34 @@ export class FluidSolver {
     this.Vy[index] += amountY;
   }
 
-  // Coordinate flattening
+  // Mark or unmark a cell as a solid obstacle
+  setObstacle(x: number, y: number, solid: boolean) {
+    const index = this.IX(x, y);
+    if (this.obstacles[index] === (solid ? 1 : 0)) return;
+    this.obstacles[index] = solid ? 1 : 0;
+    if (solid) {
+      // Nothing lives inside a wall
+      this.Vx[index] = 0;
+      this.Vy[index] = 0;
+      this.Vx0[index] = 0;
+      this.Vy0[index] = 0;
+      this.temperature[index] = 0;
+    }
+    this.obstaclesDirty = true;
+  }
+
+  clearObstacles() {
+    this.obstacles.fill(0);
+    this.obstaclesDirty = true;
+  }
+
+  // Coordinate flattening (velocity grid)
   IX(x: number, y: number) {
-    const N = this.size;
-    // Clamp coordinates
-    x = Math.max(0, Math.min(x, N + 1));
-    y = Math.max(0, Math.min(y, N + 1));
-    return x + (N + 2) * y;
+    return this.grid.IX(x, y);
   }
 
   // Simulation Step
   step(iter: number, fadeRate: number) {
-    const N = this.size;
     const visc = this.visc;
     const diff = this.diff;
     const dt = this.dt;
@@ -70,7 +288,9 @@ export class FluidSolver {
     const Vx0 = this.Vx0;
     const Vy0 = this.Vy0;
     const s = this.s;
-    const density = this.density;
+
+    if (this.vorticity > 0) this.applyVorticityConfinement(this.vorticity, dt);
+    if (this.buoyancy > 0) this.applyBuoyancy(this.buoyancy, dt);
 
     this.diffuse(1, Vx0, Vx, visc, dt, iter);
     this.diffuse(2, Vy0, Vy, visc, dt, iter);
@@ -82,49 +302,135 @@ export class FluidSolver {
     
     this.project(Vx, Vy, Vx0, Vy0, iter);
     
-    this.diffuse(0, s, density, diff, dt, iter);
-    this.advect(0, density, s, Vx, Vy, dt);
+    // Every dye channel rides the same velocity field, so colors mix where streams meet
+    const dyeGrid = this.dyeGrid;
+    for (const density of [this.densityR, this.densityG, this.densityB]) {
+      this.diffuse(0, s, density, diff, dt, iter, dyeGrid);
+      this.advect(0, density, s, Vx, Vy, dt, dyeGrid);
+
+      // Natural dissipation (fade out)
+      if (fadeRate > 0) {
+        for (let i = 0; i < density.length; i++) {
+            density[i] = Math.max(0, density[i] * (1 - fadeRate));
+        }
+      }
+    }
+
+    // Heat is only carried around while something uses it
+    if (this.buoyancy > 0) {
+      const temperature = this.temperature;
+      const t0 = this.temperature0;
+      t0.set(temperature);
+      this.advect(0, temperature, t0, Vx, Vy, dt);
+      if (this.cooling > 0) {
+        for (let i = 0; i < temperature.length; i++) {
+          temperature[i] *= 1 - this.cooling;
+        }
+      }
+    }
+  }
+
+  // Re-inject the small-scale swirls that semi-Lagrangian advection smears out.
+  // Pushes fluid along N x w, where N points towards stronger vorticity.
+  applyVorticityConfinement(strength: number, dt: number) {
+    const { W, H } = this.grid;
+    const Vx = this.Vx;
+    const Vy = this.Vy;
+    const curl = this.curl;
+    const obstacles = this.obstacles;
 
-    // Natural dissipation (fade out)
-    if (fadeRate > 0) {
-      for (let i = 0; i < density.length; i++) {
-          density[i] = Math.max(0, density[i] * (1 - fadeRate));
+    for (let j = 1; j <= H; j++) {
+      for (let i = 1; i <= W; i++) {
+        curl[this.IX(i, j)] =
+          0.5 *
+          (Vy[this.IX(i + 1, j)] - Vy[this.IX(i - 1, j)] -
+            (Vx[this.IX(i, j + 1)] - Vx[this.IX(i, j - 1)]));
+      }
+    }
+
+    for (let j = 2; j < H; j++) {
+      for (let i = 2; i < W; i++) {
+        const index = this.IX(i, j);
+        if (obstacles[index]) continue;
+
+        const gx = 0.5 * (Math.abs(curl[this.IX(i + 1, j)]) - Math.abs(curl[this.IX(i - 1, j)]));
+        const gy = 0.5 * (Math.abs(curl[this.IX(i, j + 1)]) - Math.abs(curl[this.IX(i, j - 1)]));
+        const length = Math.sqrt(gx * gx + gy * gy) + 1e-5;
+        const w = curl[index];
+
+        Vx[index] += dt * strength * (gy / length) * w;
+        Vy[index] -= dt * strength * (gx / length) * w;
       }
     }
   }
 
-  lin_solve(b: number, x: Float32Array, x0: Float32Array, a: number, c: number, iter: number) {
-    const N = this.size;
+  // Hot cells rise. Screen y grows downwards, so lift is negative Vy.
+  applyBuoyancy(strength: number, dt: number) {
+    const Vy = this.Vy;
+    const temperature = this.temperature;
+    const obstacles = this.obstacles;
+
+    for (let i = 0; i < Vy.length; i++) {
+      if (obstacles[i]) continue;
+      Vy[i] -= dt * strength * temperature[i];
+    }
+  }
+
+  // Wipe all dye and motion
+  clear() {
+    this.s.fill(0);
+    this.densityR.fill(0);
+    this.densityG.fill(0);
+    this.densityB.fill(0);
+    this.Vx.fill(0);
+    this.Vy.fill(0);
+    this.Vx0.fill(0);
+    this.Vy0.fill(0);
+    this.temperature.fill(0);
+  }
+
+  lin_solve(b: number, x: Float32Array, x0: Float32Array, a: number, c: number, iter: number, grid: Grid = this.grid) {
+    const { W, H } = grid;
     const cRecip = 1.0 / c;
+    const obstacles = grid.mask;
     
     for (let k = 0; k < iter; k++) {
-      for (let j = 1; j <= N; j++) {
-        for (let i = 1; i <= N; i++) {
-          x[this.IX(i, j)] =
-            (x0[this.IX(i, j)] +
+      for (let j = 1; j <= H; j++) {
+        for (let i = 1; i <= W; i++) {
+          // Solid cells are not solved for, set_bnd fills them from their fluid neighbours
+          if (obstacles[grid.IX(i, j)]) continue;
+          x[grid.IX(i, j)] =
+            (x0[grid.IX(i, j)] +
               a *
-                (x[this.IX(i + 1, j)] +
-                  x[this.IX(i - 1, j)] +
-                  x[this.IX(i, j + 1)] +
-                  x[this.IX(i, j - 1)])) *
+                (x[grid.IX(i + 1, j)] +
+                  x[grid.IX(i - 1, j)] +
+                  x[grid.IX(i, j + 1)] +
+                  x[grid.IX(i, j - 1)])) *
             cRecip;
         }
       }
-      this.set_bnd(b, x);
+      this.set_bnd(b, x, grid);
     }
   }
 
-  diffuse(b: number, x: Float32Array, x0: Float32Array, diff: number, dt: number, iter: number) {
-    const N = this.size;
+  diffuse(b: number, x: Float32Array, x0: Float32Array, diff: number, dt: number, iter: number, grid: Grid = this.grid) {
+    const N = Math.min(grid.W, grid.H);
     const a = dt * diff * (N - 2) * (N - 2);
-    this.lin_solve(b, x, x0, a, 1 + 6 * a, iter);
+    this.lin_solve(b, x, x0, a, 1 + 6 * a, iter, grid);
   }
 
   project(velocX: Float32Array, velocY: Float32Array, p: Float32Array, div: Float32Array, iter: number) {
-    const N = this.size;
+    const { W, H } = this.grid;
+    const N = referenceSize(this.size); // Cells are square, h = 1 / N
+    const obstacles = this.obstacles;
     
-    for (let j = 1; j <= N; j++) {
-      for (let i = 1; i <= N; i++) {
+    for (let j = 1; j <= H; j++) {
+      for (let i = 1; i <= W; i++) {
+        if (obstacles[this.IX(i, j)]) {
+          div[this.IX(i, j)] = 0;
+          p[this.IX(i, j)] = 0;
+          continue;
+        }
         div[this.IX(i, j)] =
           (-0.5 *
             (velocX[this.IX(i + 1, j)] -
@@ -137,11 +443,12 @@ export class FluidSolver {
     }
     
     this.set_bnd(0, div);
-    this.set_bnd(0, p);
-    this.lin_solve(0, p, div, 1, 6, iter); // Simplified relaxation
+    this.set_bnd(3, p);
+    this.lin_solve(3, p, div, 1, 6, iter); // Simplified relaxation
     
-    for (let j = 1; j <= N; j++) {
-      for (let i = 1; i <= N; i++) {
+    for (let j = 1; j <= H; j++) {
+      for (let i = 1; i <= W; i++) {
+        if (obstacles[this.IX(i, j)]) continue;
         velocX[this.IX(i, j)] -= 0.5 * N * (p[this.IX(i + 1, j)] - p[this.IX(i - 1, j)]);
         velocY[this.IX(i, j)] -= 0.5 * N * (p[this.IX(i, j + 1)] - p[this.IX(i, j - 1)]);
       }
@@ -151,26 +458,62 @@ export class FluidSolver {
     this.set_bnd(2, velocY);
   }
 
-  advect(b: number, d: Float32Array, d0: Float32Array, velocX: Float32Array, velocY: Float32Array, dt: number) {
-    const N = this.size;
+  // Move field `d0` along the velocity field into `d`. When `grid` is finer (or coarser) than the
+  // velocity grid, velocity is sampled bilinearly at each cell centre of `grid`.
+  advect(b: number, d: Float32Array, d0: Float32Array, velocX: Float32Array, velocY: Float32Array, dt: number, grid: Grid = this.grid) {
+    const { W, H } = grid;
+    const obstacles = grid.mask;
+    const sameGrid = grid === this.grid;
+    // Velocity cells per grid cell
+    const velScaleX = this.size.width / W;
+    const velScaleY = this.size.height / H;
     let i0, i1, j0, j1;
     
-    let x, y, s0, t0, s1, t1;
-    // Time step scalar
-    const dt0 = dt * (N - 2);
-
-    for (let j = 1; j <= N; j++) {
-      for (let i = 1; i <= N; i++) {
-        x = i - dt0 * velocX[this.IX(i, j)];
-        y = j - dt0 * velocY[this.IX(i, j)];
+    let x, y, s0, t0, s1, t1, vx, vy;
+    // Time step scalar, in cells of `grid`
+    const dt0 = dt * (referenceSize(this.size) - 2);
+    const dt0x = dt0 / velScaleX;
+    const dt0y = dt0 / velScaleY;
+    const periodicX = this.boundaries.left.kind === 'periodic';
+    const periodicY = this.boundaries.top.kind === 'periodic';
+
+    for (let j = 1; j <= H; j++) {
+      for (let i = 1; i <= W; i++) {
+        if (obstacles[grid.IX(i, j)]) continue;
+
+        if (sameGrid) {
+          vx = velocX[this.IX(i, j)];
+          vy = velocY[this.IX(i, j)];
+        } else {
+          x = (i - 0.5) * velScaleX + 0.5;
+          y = (j - 0.5) * velScaleY + 0.5;
+          i0 = Math.floor(x);
+          j0 = Math.floor(y);
+          s1 = x - i0;
+          s0 = 1.0 - s1;
+          t1 = y - j0;
+          t0 = 1.0 - t1;
+          vx =
+            s0 * (t0 * velocX[this.IX(i0, j0)] + t1 * velocX[this.IX(i0, j0 + 1)]) +
+            s1 * (t0 * velocX[this.IX(i0 + 1, j0)] + t1 * velocX[this.IX(i0 + 1, j0 + 1)]);
+          vy =
+            s0 * (t0 * velocY[this.IX(i0, j0)] + t1 * velocY[this.IX(i0, j0 + 1)]) +
+            s1 * (t0 * velocY[this.IX(i0 + 1, j0)] + t1 * velocY[this.IX(i0 + 1, j0 + 1)]);
+        }
+
+        x = i - dt0x * vx;
+        y = j - dt0y * vy;
         
+        // Periodic axes wrap around, the ghost cells hold the far side's values for the last stretch
+        if (periodicX) x = wrap(x, W);
         if (x < 0.5) x = 0.5;
-        if (x > N + 0.5) x = N + 0.5;
+        if (x > W + 0.5) x = W + 0.5;
         i0 = Math.floor(x);
         i1 = i0 + 1;
         
+        if (periodicY) y = wrap(y, H);
         if (y < 0.5) y = 0.5;
-        if (y > N + 0.5) y = N + 0.5;
+        if (y > H + 0.5) y = H + 0.5;
         j0 = Math.floor(y);
         j1 = j0 + 1;
         
@@ -179,31 +522,82 @@ export class FluidSolver {
         t1 = y - j0;
         t0 = 1.0 - t1;
         
-        d[this.IX(i, j)] =
-          s0 * (t0 * d0[this.IX(i0, j0)] + t1 * d0[this.IX(i0, j1)]) +
-          s1 * (t0 * d0[this.IX(i1, j0)] + t1 * d0[this.IX(i1, j1)]);
+        d[grid.IX(i, j)] =
+          s0 * (t0 * d0[grid.IX(i0, j0)] + t1 * d0[grid.IX(i0, j1)]) +
+          s1 * (t0 * d0[grid.IX(i1, j0)] + t1 * d0[grid.IX(i1, j1)]);
       }
     }
-    this.set_bnd(b, d);
+    this.set_bnd(b, d, grid);
   }
 
-  set_bnd(b: number, x: Float32Array) {
-    const N = this.size;
+  set_bnd(b: number, x: Float32Array, grid: Grid = this.grid) {
+    const { W, H } = grid;
+    const { left, right, top, bottom } = this.boundaries;
     
-    // Handle edges
-    for (let i = 1; i <= N; i++) {
-      x[this.IX(i, 0)] = b === 2 ? -x[this.IX(i, 1)] : x[this.IX(i, 1)];
-      x[this.IX(i, N + 1)] = b === 2 ? -x[this.IX(i, N)] : x[this.IX(i, N)];
+    // Handle edges, each by its own condition. Inflow velocities point into the domain.
+    for (let i = 1; i <= W; i++) {
+      x[grid.IX(i, 0)] = edgeValue(b, top, 2, x[grid.IX(i, 1)], x[grid.IX(i, H)], top.speed);
+      x[grid.IX(i, H + 1)] = edgeValue(b, bottom, 2, x[grid.IX(i, H)], x[grid.IX(i, 1)], -bottom.speed);
     }
-    for (let j = 1; j <= N; j++) {
-      x[this.IX(0, j)] = b === 1 ? -x[this.IX(1, j)] : x[this.IX(1, j)];
-      x[this.IX(N + 1, j)] = b === 1 ? -x[this.IX(N, j)] : x[this.IX(N, j)];
+    for (let j = 1; j <= H; j++) {
+      x[grid.IX(0, j)] = edgeValue(b, left, 1, x[grid.IX(1, j)], x[grid.IX(W, j)], left.speed);
+      x[grid.IX(W + 1, j)] = edgeValue(b, right, 1, x[grid.IX(W, j)], x[grid.IX(1, j)], -right.speed);
     }
     
     // Handle corners
-    x[this.IX(0, 0)] = 0.5 * (x[this.IX(1, 0)] + x[this.IX(0, 1)]);
-    x[this.IX(0, N + 1)] = 0.5 * (x[this.IX(1, N + 1)] + x[this.IX(0, N)]);
-    x[this.IX(N + 1, 0)] = 0.5 * (x[this.IX(N, 0)] + x[this.IX(N + 1, 1)]);
-    x[this.IX(N + 1, N + 1)] = 0.5 * (x[this.IX(N, N + 1)] + x[this.IX(N + 1, N)]);
+    x[grid.IX(0, 0)] = 0.5 * (x[grid.IX(1, 0)] + x[grid.IX(0, 1)]);
+    x[grid.IX(0, H + 1)] = 0.5 * (x[grid.IX(1, H + 1)] + x[grid.IX(0, H)]);
+    x[grid.IX(W + 1, 0)] = 0.5 * (x[grid.IX(W, 0)] + x[grid.IX(W + 1, 1)]);
+    x[grid.IX(W + 1, H + 1)] = 0.5 * (x[grid.IX(W, H + 1)] + x[grid.IX(W + 1, H)]);
+
+    this.set_obstacle_bnd(b, x, grid);
+  }
+
+  // Interior solid cells take their value from the surrounding fluid cells.
+  // Velocities are mirrored (no-slip: the interpolated wall velocity is zero),
+  // scalars are copied (zero gradient across the wall, so pressure pushes flow around it).
+  set_obstacle_bnd(b: number, x: Float32Array, grid: Grid = this.grid) {
+    if (this.obstaclesDirty) this.rebuildObstacles();
+    const cells = grid.solidCells;
+    if (cells.length === 0) return;
+
+    const obstacles = grid.mask;
+    const stride = grid.W + 2;
+
+    for (let k = 0; k < cells.length; k++) {
+      const index = cells[k];
+      let sum = 0;
+      let count = 0;
+      if (!obstacles[index - 1]) { sum += x[index - 1]; count++; }
+      if (!obstacles[index + 1]) { sum += x[index + 1]; count++; }
+      if (!obstacles[index - stride]) { sum += x[index - stride]; count++; }
+      if (!obstacles[index + stride]) { sum += x[index + stride]; count++; }
+      if (count === 0) {
+        x[index] = 0;
+      } else {
+        x[index] = b === 1 || b === 2 ? -sum / count : sum / count;
+      }
+    }
+  }
+
+  // Refresh the solid cell lists, and the dye grid's copy of the mask when it has its own
+  private rebuildObstacles() {
+    const dyeGrid = this.dyeGrid;
+    if (dyeGrid.mask !== this.obstacles) {
+      const scaleX = this.size.width / dyeGrid.W;
+      const scaleY = this.size.height / dyeGrid.H;
+      dyeGrid.mask.fill(0);
+      for (let j = 1; j <= dyeGrid.H; j++) {
+        const vj = Math.floor((j - 0.5) * scaleY) + 1;
+        for (let i = 1; i <= dyeGrid.W; i++) {
+          const vi = Math.floor((i - 0.5) * scaleX) + 1;
+          dyeGrid.mask[dyeGrid.IX(i, j)] = this.obstacles[this.IX(vi, vj)];
+        }
+      }
+      dyeGrid.rebuildSolidCells();
+    }
+    this.grid.rebuildSolidCells();
+    if (dyeGrid.mask === this.obstacles) dyeGrid.solidCells = this.grid.solidCells;
+    this.obstaclesDirty = false;
   }
 }
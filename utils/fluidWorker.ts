@@ -0,0 +1,356 @@
+// Runs the fluid solver off the main thread so large grids don't stall rendering and input.
+// The worker only steps when asked, which keeps it in lockstep with the render loop.
+
+import { FluidSolver } from './fluidSolver';
+import { WebGLFluidSolver } from './webglFluidSolver';
+import { resampleState } from './resample';
+import { gridDimensions, paddedLength, referenceSize, sameSize } from './grid';
+import { SnapshotHistory } from './history';
+import { encodeState, decodeState } from './snapshot';
+import { brushSplats } from './brush';
+import { interpolatesStrokes } from './recording';
+import { emitterSplats } from './emitters';
+import { frameTransfer } from './frames';
+import { DEFAULT_CONFIG, RESOLUTION_OPTIONS, DYE_RESOLUTION_OPTIONS } from '../constants';
+import {
+  SolverRequest,
+  SolverResponse,
+  DyeFrame,
+  FluidBackend,
+  SimulationConfig,
+  SolverBackendKind,
+  GridSize,
+  StrokeRecording,
+  Snapshot,
+  FlowFields,
+  Emitter
+} from '../types';
+
+let solver: FluidBackend | null = null;
+let timestep = 0;
+let resolution = 0; // Reference size of the solver's grid, smaller than requested after a CPU clamp
+let dyeResolution = 0;
+let aspect = 1; // Domain width / height
+let config: SimulationConfig | null = null;
+let iterations = 0;
+let fadeRate = 0;
+let stepCount = 0;
+
+// Persistent sources and sinks, and the steps taken since they started (drives their oscillation)
+let emitters: Emitter[] = [];
+let emitterClock = 0;
+
+const MB = 1024 * 1024;
+const history = new SnapshotHistory(DEFAULT_CONFIG.historyLimitMB * MB);
+let historyQueue: Promise<void> = Promise.resolve();
+
+// Active replay: the next event to apply and the steps taken since the replay started
+let replay: { recording: StrokeRecording; index: number; step: number } | null = null;
+
+const post = (message: SolverResponse, transfer: Transferable[] = []) => {
+  self.postMessage(message, { transfer });
+};
+
+// The CPU solver is held to the largest grids the settings offer it, so a GPU-sized config can't stall the worker
+const CPU_MAX_RESOLUTION = Math.max(...RESOLUTION_OPTIONS.cpu);
+const CPU_MAX_DYE_RESOLUTION = Math.max(...DYE_RESOLUTION_OPTIONS.cpu);
+
+// Reference sizes a backend of this kind runs the config at. A GPU that fell back is a CPU backend from then on.
+const targetResolution = (kind: SolverBackendKind, config: SimulationConfig) =>
+  kind === 'webgl2'
+    ? { resolution: config.resolution, dyeRes: config.dyeRes }
+    : { resolution: Math.min(config.resolution, CPU_MAX_RESOLUTION), dyeRes: Math.min(config.dyeRes, CPU_MAX_DYE_RESOLUTION) };
+
+// Whether the config asks for other grids than the solver has. Sizes clamped or reported back after a
+// fallback resolve to the current grids, so echoing them doesn't rebuild.
+const gridsChanged = (s: FluidBackend, config: SimulationConfig) => {
+  const target = targetResolution(s.kind, config);
+  return target.resolution !== resolution || target.dyeRes !== dyeResolution;
+};
+
+// Grids are sized from the config unless given (replays need the recorded ones exactly)
+const createBackend = (
+  kind: SolverBackendKind,
+  config: SimulationConfig,
+  dt: number,
+  size?: GridSize,
+  dyeSize?: GridSize
+): FluidBackend => {
+  if (kind === 'webgl2') {
+    try {
+      return new WebGLFluidSolver(
+        size ?? gridDimensions(config.resolution, aspect),
+        config.diffusion,
+        config.viscosity,
+        dt,
+        dyeSize ?? gridDimensions(config.dyeRes, aspect)
+      );
+    } catch (e) {
+      // The main thread saw WebGL2, but it may still be unavailable here (e.g. no OffscreenCanvas GL)
+      console.warn('GPU solver unavailable, falling back to CPU', e);
+      const fallbackSize = gridDimensions(Math.min(config.resolution, DEFAULT_CONFIG.resolution), aspect);
+      const fallbackDyeSize = gridDimensions(Math.min(config.dyeRes, DEFAULT_CONFIG.dyeRes), aspect);
+      return new FluidSolver(fallbackSize, config.diffusion, config.viscosity, dt, fallbackDyeSize);
+    }
+  }
+  const target = targetResolution(kind, config);
+  return new FluidSolver(
+    size ?? gridDimensions(target.resolution, aspect),
+    config.diffusion,
+    config.viscosity,
+    dt,
+    dyeSize ?? gridDimensions(target.dyeRes, aspect)
+  );
+};
+
+// Rebuild on the same backend and carry the picture over to the new grids
+const rebuild = (s: FluidBackend, config: SimulationConfig): FluidBackend => {
+  const state = s.readState();
+  s.dispose();
+  const next = createBackend(s.kind, config, timestep);
+  next.writeState(resampleState(state, next.size, next.dyeSize));
+  post({ type: 'ready', backend: next.kind, size: next.size, dyeSize: next.dyeSize });
+  return next;
+};
+
+// Snapshots are compressed asynchronously; chaining keeps undo/redo in order with the pushes before them
+const enqueueHistory = (task: () => Promise<void>) => {
+  historyQueue = historyQueue
+    .then(task)
+    .catch(e => console.error('Undo history update failed', e))
+    .then(() => post({ type: 'history', status: history.status }));
+};
+
+// The state is copied right away so later steps don't leak into the snapshot
+const recordSnapshot = (s: FluidBackend) => {
+  const state = s.readState();
+  enqueueHistory(async () => history.push(await encodeState(state)));
+};
+
+// Restore the snapshot picked by undo/redo, resampled in case the grids changed since it was taken
+const restoreSnapshot = (pick: () => Snapshot | null) => {
+  enqueueHistory(async () => {
+    const snapshot = pick();
+    if (!snapshot) return;
+    const state = await decodeState(snapshot);
+    solver?.writeState(resampleState(state, solver.size, solver.dyeSize));
+  });
+};
+
+// Feed the recorded brush events that are due before the next step.
+// Returns true when this finished the replay.
+const advanceReplay = (s: FluidBackend) => {
+  if (!replay) return false;
+  const { recording } = replay;
+  const interpolate = interpolatesStrokes(recording);
+  while (replay.index < recording.events.length && recording.events[replay.index].step <= replay.step) {
+    for (const splat of brushSplats(recording.events[replay.index], s.size, interpolate)) s.splat(splat);
+    replay.index++;
+  }
+  // The state now matches the moment the recording was stopped
+  if (replay.step >= recording.steps && replay.index >= recording.events.length) {
+    replay = null;
+    post({ type: 'replayEnd' });
+    return true;
+  }
+  return false;
+};
+
+// Copy the dye (and the flow fields if asked for) into a frame, reusing the recycled buffers when they still fit
+const buildFrame = (s: FluidBackend, recycled: DyeFrame | null, withFlow: boolean): DyeFrame => {
+  const length = paddedLength(s.size);
+  const dyeLength = paddedLength(s.dyeSize);
+  const reuse = recycled && recycled.densityR.length === dyeLength && recycled.obstacles.length === length;
+  const reusedFlow = reuse ? recycled.flow : null;
+  const flow: FlowFields | null = withFlow
+    ? reusedFlow ?? {
+        Vx: new Float32Array(length),
+        Vy: new Float32Array(length),
+        pressure: new Float32Array(length),
+        divergence: new Float32Array(length)
+      }
+    : null;
+  const frame: DyeFrame = {
+    size: s.size,
+    dyeSize: s.dyeSize,
+    step: stepCount,
+    densityR: reuse ? recycled.densityR : new Float32Array(dyeLength),
+    densityG: reuse ? recycled.densityG : new Float32Array(dyeLength),
+    densityB: reuse ? recycled.densityB : new Float32Array(dyeLength),
+    obstacles: reuse ? recycled.obstacles : new Uint8Array(length),
+    flow
+  };
+  s.readDye(frame);
+  if (flow) s.readFlow(flow);
+  return frame;
+};
+
+self.onmessage = (e: MessageEvent<SolverRequest>) => {
+  const request = e.data;
+
+  switch (request.type) {
+    case 'init': {
+      const { dt } = request;
+      config = request.config;
+      aspect = request.aspect;
+      solver?.dispose();
+      solver = createBackend(request.backend, config, dt);
+      solver.configure(config);
+      timestep = dt;
+      resolution = referenceSize(solver.size);
+      dyeResolution = referenceSize(solver.dyeSize);
+      iterations = config.iterations;
+      fadeRate = config.fadeRate;
+      stepCount = 0;
+      post({ type: 'ready', backend: solver.kind, size: solver.size, dyeSize: solver.dyeSize });
+      // The empty canvas is the first state undo can return to
+      history.clear();
+      history.setLimit(config.historyLimitMB * MB);
+      recordSnapshot(solver);
+      break;
+    }
+    case 'configure': {
+      if (!solver) return;
+      config = request.config;
+      if (gridsChanged(solver, config)) {
+        solver = rebuild(solver, config);
+        resolution = referenceSize(solver.size);
+        dyeResolution = referenceSize(solver.dyeSize);
+      }
+      solver.configure(config);
+      iterations = config.iterations;
+      fadeRate = config.fadeRate;
+      history.setLimit(config.historyLimitMB * MB);
+      break;
+    }
+    case 'resize': {
+      if (!solver || !config) return;
+      const previous = aspect;
+      aspect = request.aspect;
+      // Small changes in shape may still round to the same grids
+      const changed =
+        !sameSize(gridDimensions(resolution, previous), gridDimensions(resolution, aspect)) ||
+        !sameSize(gridDimensions(dyeResolution, previous), gridDimensions(dyeResolution, aspect));
+      if (changed) {
+        solver = rebuild(solver, config);
+        solver.configure(config);
+      }
+      break;
+    }
+    case 'step': {
+      if (!solver) return;
+      for (const splat of request.splats) {
+        solver.splat(splat);
+      }
+      if (request.snapshot) recordSnapshot(solver);
+      // The final frame of a replay is shown as recorded, live stepping resumes with the next request
+      const replayEnded = advanceReplay(solver);
+      if (request.advance && !replayEnded) {
+        for (const emitter of emitters) {
+          for (const splat of emitterSplats(emitter, solver.size, emitterClock)) solver.splat(splat);
+        }
+        emitterClock++;
+        solver.step(iterations, fadeRate);
+        stepCount++;
+        if (replay) replay.step++;
+      }
+      const frame = buildFrame(solver, request.recycled, request.flow);
+      post({ type: 'frame', frame }, frameTransfer(frame));
+      break;
+    }
+    case 'reset': {
+      if (!solver) return;
+      solver.clear();
+      solver.clearObstacles();
+      emitterClock = 0;
+      // Clearing is undoable like any stroke
+      recordSnapshot(solver);
+      break;
+    }
+    case 'emitters':
+      emitters = request.emitters;
+      break;
+    case 'replay': {
+      if (!solver) return;
+      const { recording } = request;
+      if (!recording) {
+        if (replay) post({ type: 'replayEnd' });
+        replay = null;
+        break;
+      }
+      // A fresh solver with the recorded settings and grids, so every step matches the original
+      solver.dispose();
+      config = recording.config;
+      timestep = recording.dt;
+      aspect = recording.size.width / recording.size.height;
+      solver = createBackend(solver.kind, config, timestep, recording.size, recording.dyeSize);
+      solver.configure(config);
+      resolution = referenceSize(solver.size);
+      dyeResolution = referenceSize(solver.dyeSize);
+      iterations = config.iterations;
+      fadeRate = config.fadeRate;
+      post({ type: 'ready', backend: solver.kind, size: solver.size, dyeSize: solver.dyeSize });
+      emitters = recording.emitters;
+      emitterClock = 0;
+      replay = { recording, index: 0, step: 0 };
+      break;
+    }
+    case 'save': {
+      // In line with history work, so saves are answered in order and always include a load sent before them
+      historyQueue = historyQueue
+        .then(async () => {
+          if (!solver) throw new Error('No simulation to save');
+          const snapshot = await encodeState(solver.readState());
+          post({ type: 'saved', snapshot }, [snapshot.data.buffer]);
+        })
+        .catch(e => {
+          console.error('Saving the project failed', e);
+          post({ type: 'saved', snapshot: null });
+        });
+      break;
+    }
+    case 'load': {
+      if (!solver) return;
+      const { snapshot } = request;
+      config = request.config;
+      if (gridsChanged(solver, config)) {
+        solver.dispose();
+        solver = createBackend(solver.kind, config, timestep);
+        resolution = referenceSize(solver.size);
+        dyeResolution = referenceSize(solver.dyeSize);
+        post({ type: 'ready', backend: solver.kind, size: solver.size, dyeSize: solver.dyeSize });
+      }
+      solver.configure(config);
+      iterations = config.iterations;
+      fadeRate = config.fadeRate;
+      history.setLimit(config.historyLimitMB * MB);
+      // A new document: the loaded state is the oldest one undo can return to.
+      // Queued behind pending history work so an earlier snapshot can't land on top of it.
+      enqueueHistory(async () => {
+        const state = await decodeState(snapshot);
+        if (!solver) return;
+        solver.writeState(resampleState(state, solver.size, solver.dyeSize));
+        history.clear();
+        history.push(await encodeState(solver.readState()));
+      });
+      break;
+    }
+    case 'restore': {
+      const { snapshot } = request;
+      // Queued like a save, so it lands after any history work sent before it
+      historyQueue = historyQueue
+        .then(async () => {
+          const state = await decodeState(snapshot);
+          solver?.writeState(resampleState(state, solver.size, solver.dyeSize));
+        })
+        .catch(e => console.error('Restoring the simulation failed', e));
+      break;
+    }
+    case 'undo':
+      restoreSnapshot(() => history.undo());
+      break;
+    case 'redo':
+      restoreSnapshot(() => history.redo());
+      break;
+  }
+};
@@ -0,0 +1,236 @@
+import { SimulationConfig, Splat, DyeFrame, SolverRequest, SolverResponse, SolverBackendKind, GridSize, HistoryStatus, BrushEvent, StrokeRecording, Snapshot, Emitter } from '../types';
+import { gridDimensions } from './grid';
+import { brushSplats } from './brush';
+import { frameTransfer } from './frames';
+import { RECORDING_VERSION } from './recording';
+import { WebGLFluidSolver } from './webglFluidSolver';
+
+// Prefer the GPU solver when this browser can run it
+export const detectBackend = (): SolverBackendKind =>
+  WebGLFluidSolver.isSupported() ? 'webgl2' : 'cpu';
+
+// Main-thread handle on the simulation worker.
+// Brush input is batched until the next frame request; at most one request is in flight at a time.
+export class FluidWorkerClient {
+  size: GridSize; // Velocity grid; may change once the worker reports which backend it started
+  dyeSize: GridSize; // Dye grid
+  backend: SolverBackendKind;
+  latest: DyeFrame | null = null; // Most recent frame, owned by the renderer
+  onHistory?: (status: HistoryStatus) => void; // Called whenever the undo history changes
+  onReplayEnd?: () => void;
+  flow = false; // Ask for the flow fields with every frame (for the render styles that show them)
+
+  private worker: Worker;
+  private pending: Splat[] = [];
+  private inFlight = false;
+  private spare: DyeFrame | null = null; // Previous frame, returned to the worker for reuse
+  private snapshotPending = false;
+  private frameWaiters: ((frame: DyeFrame) => void)[] = [];
+  private saveWaiters: ((snapshot: Snapshot | null) => void)[] = [];
+
+  private dt: number;
+  private stepsSent = 0; // Advancing step requests sent; the worker steps exactly once for each
+  private recording: StrokeRecording | null = null;
+  private recordingStart = 0; // stepsSent when the recording began
+  private pendingEvents: Omit<BrushEvent, 'step'>[] = []; // Brush samples waiting to be flushed and recorded
+
+  constructor(
+    config: SimulationConfig,
+    dt: number,
+    backend: SolverBackendKind,
+    aspect: number,
+    private onReady?: (backend: SolverBackendKind, size: GridSize, dyeSize: GridSize) => void
+  ) {
+    this.size = gridDimensions(config.resolution, aspect);
+    this.dyeSize = gridDimensions(config.dyeRes, aspect);
+    this.backend = backend;
+    this.dt = dt;
+    this.worker = new Worker(new URL('./fluidWorker.ts', import.meta.url), { type: 'module' });
+    this.worker.onmessage = (e: MessageEvent<SolverResponse>) => this.handleMessage(e.data);
+    this.send({ type: 'init', config, dt, backend, aspect });
+  }
+
+  queueSplat(splat: Splat) {
+    this.pending.push(splat);
+  }
+
+  // Queue one brush sample as splats on the current grid, and remember it while recording
+  queueBrush(event: Omit<BrushEvent, 'step'>) {
+    this.pending.push(...brushSplats(event, this.size));
+    if (this.recording) this.pendingEvents.push(event);
+  }
+
+  get isRecording() {
+    return this.recording !== null;
+  }
+
+  // Replace the emitters the worker applies before every step
+  setEmitters(emitters: Emitter[]) {
+    this.send({ type: 'emitters', emitters });
+  }
+
+  // Clear the canvas and start recording brush input from there, with the given emitters running throughout
+  startRecording(config: SimulationConfig, emitters: Emitter[]) {
+    this.reset();
+    this.recording = {
+      version: RECORDING_VERSION,
+      dt: this.dt,
+      config,
+      size: this.size,
+      dyeSize: this.dyeSize,
+      steps: 0,
+      events: [],
+      emitters
+    };
+    this.recordingStart = this.stepsSent;
+    this.pendingEvents = [];
+  }
+
+  stopRecording(): StrokeRecording | null {
+    const recording = this.recording;
+    if (!recording) return null;
+    this.flushEvents();
+    recording.steps = this.stepsSent - this.recordingStart;
+    this.recording = null;
+    return recording;
+  }
+
+  // Replay a recording from scratch on a fresh solver, one step per frame
+  replay(recording: StrokeRecording) {
+    this.stopRecording();
+    this.pending = [];
+    this.snapshotPending = false;
+    this.send({ type: 'replay', recording });
+  }
+
+  stopReplay() {
+    this.send({ type: 'replay', recording: null });
+  }
+
+  // Record an undo step once the splats queued so far have been applied (call at the end of a stroke)
+  commitSnapshot() {
+    this.snapshotPending = true;
+  }
+
+  // Ask the worker for the next frame, advancing the simulation one step if requested.
+  // Does nothing while the previous frame is still being computed; returns whether a step was sent.
+  requestFrame(advance: boolean): boolean {
+    if (this.inFlight) return false;
+    this.inFlight = true;
+
+    const recycled = this.spare;
+    this.spare = null;
+    const splats = this.pending;
+    this.pending = [];
+    // The batch is applied before this request's step, i.e. after stepsSent steps
+    this.flushEvents();
+    if (advance) this.stepsSent++;
+    const snapshot = this.snapshotPending;
+    this.snapshotPending = false;
+
+    this.send({ type: 'step', splats, advance, recycled, snapshot, flow: this.flow }, recycled ? frameTransfer(recycled) : []);
+    return advance;
+  }
+
+  // Request a frame and wait for it, for offline rendering where the caller drives the steps.
+  // The frame is recycled by the request after next, so read it before asking again.
+  async renderFrame(advance: boolean): Promise<DyeFrame> {
+    if (this.inFlight) await this.nextFrame();
+    const frame = this.nextFrame();
+    this.requestFrame(advance);
+    return frame;
+  }
+
+  // Push edited settings to the running solver
+  configure(config: SimulationConfig) {
+    this.send({ type: 'configure', config });
+  }
+
+  // Reshape the grids to a new display aspect ratio (width / height)
+  resize(aspect: number) {
+    this.send({ type: 'resize', aspect });
+  }
+
+  reset() {
+    this.pending = [];
+    this.snapshotPending = false;
+    this.send({ type: 'reset' });
+  }
+
+  // Compressed copy of the whole simulation state, for project files
+  save(): Promise<Snapshot | null> {
+    return new Promise(resolve => {
+      this.saveWaiters.push(resolve);
+      this.send({ type: 'save' });
+    });
+  }
+
+  // Replace the simulation with a saved one; the undo history starts over from it
+  load(config: SimulationConfig, snapshot: Snapshot) {
+    this.pending = [];
+    this.snapshotPending = false;
+    this.send({ type: 'load', config, snapshot });
+  }
+
+  // Put back a state read with save(), e.g. after an offline render stepped the live solver
+  restore(snapshot: Snapshot) {
+    this.pending = [];
+    this.snapshotPending = false;
+    this.send({ type: 'restore', snapshot }, [snapshot.data.buffer]);
+  }
+
+  undo() {
+    this.send({ type: 'undo' });
+  }
+
+  redo() {
+    this.send({ type: 'redo' });
+  }
+
+  dispose() {
+    this.worker.terminate();
+  }
+
+  private flushEvents() {
+    if (this.recording) {
+      const step = this.stepsSent - this.recordingStart;
+      for (const event of this.pendingEvents) this.recording.events.push({ ...event, step });
+    }
+    this.pendingEvents = [];
+  }
+
+  private nextFrame() {
+    return new Promise<DyeFrame>(resolve => this.frameWaiters.push(resolve));
+  }
+
+  private send(request: SolverRequest, transfer: Transferable[] = []) {
+    this.worker.postMessage(request, transfer);
+  }
+
+  private handleMessage(response: SolverResponse) {
+    switch (response.type) {
+      case 'ready':
+        this.backend = response.backend;
+        this.size = response.size;
+        this.dyeSize = response.dyeSize;
+        this.onReady?.(response.backend, response.size, response.dyeSize);
+        break;
+      case 'frame':
+        this.spare = this.latest;
+        this.latest = response.frame;
+        this.inFlight = false;
+        for (const resolve of this.frameWaiters.splice(0)) resolve(response.frame);
+        break;
+      case 'history':
+        this.onHistory?.(response.status);
+        break;
+      case 'replayEnd':
+        this.onReplayEnd?.();
+        break;
+      case 'saved':
+        // Answers arrive in request order
+        this.saveWaiters.shift()?.(response.snapshot);
+        break;
+    }
+  }
+}
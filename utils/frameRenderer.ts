@@ -0,0 +1,116 @@
+import { DyeFrame, GridSize, RenderSettings } from '../types';
+import { CANVAS_BG_COLOR, OBSTACLE_COLOR, DEFAULT_RENDER_SETTINGS } from '../constants';
+import { RenderStyle, getRenderStyle } from './renderStyles';
+import { buildColormap, colormapStops } from './colormaps';
+import { FlowOverlay } from './flowOverlay';
+
+// Maps each padded dye row or column to the velocity cell at its centre (nearest)
+const buildCellMap = (dyeCells: number, velocityCells: number) => {
+  const map = new Int32Array(dyeCells + 2);
+  const scale = velocityCells / dyeCells;
+  for (let i = 0; i < map.length; i++) {
+    map[i] = Math.min(Math.max(Math.floor((i - 0.5) * scale) + 1, 0), velocityCells + 1);
+  }
+  return map;
+};
+
+// Turns dye frames into pixels: one pixel per padded dye cell on an offscreen canvas,
+// which is then scaled onto any target (the screen, or an export canvas).
+// How the pixels are colored is up to the active render style (see utils/renderStyles.ts).
+export class FrameRenderer {
+  // Sized to the first frame that arrives
+  readonly canvas = document.createElement('canvas');
+  private ctx = this.canvas.getContext('2d');
+  private imageData: ImageData | null = null;
+
+  private style: RenderStyle;
+  private colormap: Uint8Array;
+  private overlay: FlowOverlay;
+
+  // Velocity cell under each padded dye pixel, rebuilt when either grid changes
+  private velocityCell = new Int32Array(0);
+  private mappedSize: GridSize | null = null;
+  private mappedDyeSize: GridSize | null = null;
+
+  constructor(settings: RenderSettings = DEFAULT_RENDER_SETTINGS) {
+    this.style = getRenderStyle(settings.style);
+    this.colormap = buildColormap(colormapStops(settings));
+    this.overlay = new FlowOverlay(settings.overlays);
+  }
+
+  setSettings(settings: RenderSettings) {
+    this.style = getRenderStyle(settings.style);
+    this.colormap = buildColormap(colormapStops(settings));
+    this.overlay.setSettings(settings.overlays);
+  }
+
+  // Whether frames need their flow fields for the active style or overlays
+  get needsFlow() {
+    return this.style.flow || this.overlay.active;
+  }
+
+  // Composite the frame into pixel data
+  composite(frame: DyeFrame) {
+    const paddedWidth = frame.dyeSize.width + 2;
+    const paddedHeight = frame.dyeSize.height + 2;
+    if (!this.imageData || this.imageData.width !== paddedWidth || this.imageData.height !== paddedHeight) {
+      this.imageData = new ImageData(paddedWidth, paddedHeight);
+      this.canvas.width = paddedWidth;
+      this.canvas.height = paddedHeight;
+    }
+    if (
+      this.mappedSize?.width !== frame.size.width ||
+      this.mappedSize?.height !== frame.size.height ||
+      this.mappedDyeSize?.width !== frame.dyeSize.width ||
+      this.mappedDyeSize?.height !== frame.dyeSize.height
+    ) {
+      const columnMap = buildCellMap(frame.dyeSize.width, frame.size.width);
+      const rowMap = buildCellMap(frame.dyeSize.height, frame.size.height);
+      const velocityWidth = frame.size.width + 2;
+      this.velocityCell = new Int32Array(paddedWidth * paddedHeight);
+      for (let i = 0; i < this.velocityCell.length; i++) {
+        this.velocityCell[i] = columnMap[i % paddedWidth] + velocityWidth * rowMap[(i / paddedWidth) | 0];
+      }
+      this.mappedSize = frame.size;
+      this.mappedDyeSize = frame.dyeSize;
+    }
+    const data = this.imageData.data;
+    const { velocityCell } = this;
+
+    // Frames requested before a switch to a flow style arrive without the fields; show them as smoke
+    const style = this.style.flow && !frame.flow ? getRenderStyle('smoke') : this.style;
+    style.paint(frame, data, { velocityCell, colormap: this.colormap });
+
+    // Obstacles are drawn as opaque solids on top, whatever the style
+    const { obstacles } = frame;
+    for (let i = 0; i < velocityCell.length; i++) {
+      if (!obstacles[velocityCell[i]]) continue;
+      const pixelIndex = i * 4;
+      data[pixelIndex] = OBSTACLE_COLOR.r;
+      data[pixelIndex + 1] = OBSTACLE_COLOR.g;
+      data[pixelIndex + 2] = OBSTACLE_COLOR.b;
+      data[pixelIndex + 3] = 255;
+    }
+
+    this.ctx?.putImageData(this.imageData, 0, 0);
+    this.overlay.update(frame);
+  }
+
+  get hasFrame() {
+    return this.imageData !== null;
+  }
+
+  // Scale the last composited frame onto a target, with smoothing, and draw the overlays over it
+  draw(target: CanvasRenderingContext2D, width: number, height: number) {
+    target.fillStyle = CANVAS_BG_COLOR;
+    target.fillRect(0, 0, width, height);
+
+    target.imageSmoothingEnabled = true;
+    target.imageSmoothingQuality = 'high';
+
+    // Scale up to fit
+    target.drawImage(this.canvas, 0, 0, width, height);
+
+    this.overlay.draw(target, width, height);
+  }
+}
@@ -0,0 +1,16 @@
+import { DyeFrame } from '../types';
+
+// Buffers of a frame, so it moves between the worker and the main thread without copying
+export const frameTransfer = (frame: DyeFrame): Transferable[] => {
+  const buffers: Transferable[] = [
+    frame.densityR.buffer,
+    frame.densityG.buffer,
+    frame.densityB.buffer,
+    frame.obstacles.buffer
+  ];
+  if (frame.flow) {
+    const { Vx, Vy, pressure, divergence } = frame.flow;
+    buffers.push(Vx.buffer, Vy.buffer, pressure.buffer, divergence.buffer);
+  }
+  return buffers;
+};
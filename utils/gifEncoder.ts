@@ -0,0 +1,253 @@
+// Minimal animated GIF89a encoder.
+// Every frame gets its own 256-color palette (median cut over a 15-bit color histogram) and is LZW compressed.
+
+// Growable byte buffer; finished frames are handed off as chunks so memory isn't copied twice
+class ByteWriter {
+  private buffer = new Uint8Array(1 << 16);
+  length = 0;
+
+  byte(value: number) {
+    if (this.length === this.buffer.length) {
+      const grown = new Uint8Array(this.buffer.length * 2);
+      grown.set(this.buffer);
+      this.buffer = grown;
+    }
+    this.buffer[this.length++] = value;
+  }
+
+  short(value: number) {
+    this.byte(value & 0xff);
+    this.byte((value >> 8) & 0xff);
+  }
+
+  bytes(values: ArrayLike<number>) {
+    for (let i = 0; i < values.length; i++) this.byte(values[i]);
+  }
+
+  take(): Uint8Array {
+    const out = this.buffer.slice(0, this.length);
+    this.length = 0;
+    return out;
+  }
+}
+
+// --- Color quantization ---
+
+const colorKey = (r: number, g: number, b: number) => ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+
+interface Box {
+  keys: number[]; // Histogram bins in this box
+  count: number; // Pixels in this box
+}
+
+const channel = (key: number, axis: number) => (key >> (10 - axis * 5)) & 31;
+
+// Split histogram bins into up to 256 boxes of similar colors, largest boxes first
+const medianCut = (histogram: Uint32Array): { palette: Uint8Array; lookup: Uint8Array } => {
+  const keys: number[] = [];
+  let total = 0;
+  for (let key = 0; key < histogram.length; key++) {
+    if (histogram[key] > 0) {
+      keys.push(key);
+      total += histogram[key];
+    }
+  }
+
+  const boxes: Box[] = [{ keys, count: total }];
+  while (boxes.length < 256) {
+    // Split the most populated box that still has more than one color
+    let target = -1;
+    for (let i = 0; i < boxes.length; i++) {
+      if (boxes[i].keys.length > 1 && (target < 0 || boxes[i].count > boxes[target].count)) target = i;
+    }
+    if (target < 0) break;
+    const box = boxes[target];
+
+    // Along the channel with the widest range
+    let axis = 0;
+    let widest = -1;
+    for (let a = 0; a < 3; a++) {
+      let min = 31;
+      let max = 0;
+      for (const key of box.keys) {
+        const v = channel(key, a);
+        if (v < min) min = v;
+        if (v > max) max = v;
+      }
+      if (max - min > widest) {
+        widest = max - min;
+        axis = a;
+      }
+    }
+    box.keys.sort((p, q) => channel(p, axis) - channel(q, axis));
+
+    // At the pixel median
+    let seen = 0;
+    let split = 1;
+    for (; split < box.keys.length - 1; split++) {
+      seen += histogram[box.keys[split - 1]];
+      if (seen >= box.count / 2) break;
+    }
+    const lower = box.keys.slice(0, split);
+    const upper = box.keys.slice(split);
+    const lowerCount = lower.reduce((sum, key) => sum + histogram[key], 0);
+    boxes.splice(target, 1, { keys: lower, count: lowerCount }, { keys: upper, count: box.count - lowerCount });
+  }
+
+  const palette = new Uint8Array(256 * 3);
+  const lookup = new Uint8Array(histogram.length);
+  boxes.forEach((box, index) => {
+    let r = 0;
+    let g = 0;
+    let b = 0;
+    for (const key of box.keys) {
+      const n = histogram[key];
+      r += (channel(key, 0) * 8 + 4) * n;
+      g += (channel(key, 1) * 8 + 4) * n;
+      b += (channel(key, 2) * 8 + 4) * n;
+      lookup[key] = index;
+    }
+    const count = Math.max(1, box.count);
+    palette[index * 3] = Math.round(r / count);
+    palette[index * 3 + 1] = Math.round(g / count);
+    palette[index * 3 + 2] = Math.round(b / count);
+  });
+
+  return { palette, lookup };
+};
+
+// --- LZW ---
+
+const MAX_CODES = 4096;
+
+// Dictionary entries are looked up directly by (prefix code, next index).
+// Entries are stamped with a generation so a clear code doesn't have to wipe the table.
+const codeTable = new Int16Array(MAX_CODES * 256);
+const codeStamps = new Uint16Array(MAX_CODES * 256);
+let generation = 0;
+
+const nextGeneration = () => {
+  generation++;
+  if (generation === 0x10000) {
+    codeStamps.fill(0);
+    generation = 1;
+  }
+};
+
+const lzwEncode = (indices: Uint8Array, out: ByteWriter) => {
+  const minCodeSize = 8;
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+
+  const data = new ByteWriter();
+  let bits = 0;
+  let bitCount = 0;
+  const emit = (code: number) => {
+    bits |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      data.byte(bits & 0xff);
+      bits >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  nextGeneration();
+  emit(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const key = prefix * 256 + indices[i];
+    if (codeStamps[key] === generation) {
+      prefix = codeTable[key];
+      continue;
+    }
+    emit(prefix);
+    if (nextCode === MAX_CODES) {
+      emit(clearCode);
+      nextGeneration();
+      nextCode = endCode + 1;
+      codeSize = minCodeSize + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      codeTable[key] = nextCode++;
+      codeStamps[key] = generation;
+    }
+    prefix = indices[i];
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bitCount > 0) data.byte(bits & 0xff);
+
+  // Image data goes out in sub-blocks of at most 255 bytes
+  const bytes = data.take();
+  out.byte(minCodeSize);
+  for (let offset = 0; offset < bytes.length; offset += 255) {
+    const block = bytes.subarray(offset, Math.min(offset + 255, bytes.length));
+    out.byte(block.length);
+    out.bytes(block);
+  }
+  out.byte(0);
+};
+
+// --- Encoder ---
+
+export class GifEncoder {
+  private chunks: Uint8Array[] = [];
+  private writer = new ByteWriter();
+  private histogram = new Uint32Array(1 << 15);
+
+  constructor(private width: number, private height: number, loop = 0) {
+    const w = this.writer;
+    w.bytes([0x47, 0x49, 0x46, 0x38, 0x39, 0x61]); // GIF89a
+    // Logical screen descriptor, no global color table (each frame carries its own)
+    w.short(width);
+    w.short(height);
+    w.bytes([0, 0, 0]);
+    // NETSCAPE2.0 application extension: loop count (0 = forever)
+    w.bytes([0x21, 0xff, 0x0b]);
+    w.bytes(Array.from('NETSCAPE2.0', c => c.charCodeAt(0)));
+    w.bytes([0x03, 0x01]);
+    w.short(loop);
+    w.byte(0);
+    this.chunks.push(w.take());
+  }
+
+  // Add an opaque RGBA frame of the encoder's size, shown for `delay` hundredths of a second
+  addFrame(rgba: Uint8ClampedArray, delay: number) {
+    const pixelCount = this.width * this.height;
+    const histogram = this.histogram;
+    histogram.fill(0);
+    for (let i = 0; i < pixelCount; i++) {
+      histogram[colorKey(rgba[i * 4], rgba[i * 4 + 1], rgba[i * 4 + 2])]++;
+    }
+    const { palette, lookup } = medianCut(histogram);
+
+    const indices = new Uint8Array(pixelCount);
+    for (let i = 0; i < pixelCount; i++) {
+      indices[i] = lookup[colorKey(rgba[i * 4], rgba[i * 4 + 1], rgba[i * 4 + 2])];
+    }
+
+    const w = this.writer;
+    // Graphic control extension: no transparency, frames replace each other
+    w.bytes([0x21, 0xf9, 0x04, 0x04]);
+    w.short(Math.max(1, Math.round(delay)));
+    w.bytes([0, 0]);
+    // Image descriptor with a 256-entry local color table
+    w.byte(0x2c);
+    w.short(0);
+    w.short(0);
+    w.short(this.width);
+    w.short(this.height);
+    w.byte(0x87);
+    w.bytes(palette);
+    lzwEncode(indices, w);
+    this.chunks.push(w.take());
+  }
+
+  finish(): Blob {
+    this.chunks.push(new Uint8Array([0x3b])); // Trailer
+    return new Blob(this.chunks, { type: 'image/gif' });
+  }
+}
@@ -0,0 +1,30 @@
+import { GridSize } from '../types';
+import { isGrid } from './validate';
+
+// Grid dimensions for a domain of the given aspect ratio (width / height).
+// `resolution` cells span the shorter side so cells stay square.
+export const gridDimensions = (resolution: number, aspect: number): GridSize => {
+  if (!(aspect > 0) || !isFinite(aspect)) aspect = 1;
+  return aspect >= 1
+    ? { width: Math.max(resolution, Math.round(resolution * aspect)), height: resolution }
+    : { width: resolution, height: Math.max(resolution, Math.round(resolution / aspect)) };
+};
+
+// Number of cells in the padded (width+2) x (height+2) layout
+export const paddedLength = (size: GridSize) => (size.width + 2) * (size.height + 2);
+
+export const sameSize = (a: GridSize, b: GridSize) => a.width === b.width && a.height === b.height;
+
+// Widest (or tallest) domain a stored grid may describe
+const MAX_ASPECT = 4;
+
+// A grid read from a file: whole cells, the shorter side within `range` and a plausible shape.
+// Anything else would fail to allocate or exhaust memory when a solver is built on it.
+export const isGridWithin = (value: unknown, range: { min: number; max: number }): value is GridSize => {
+  if (!isGrid(value) || !Number.isInteger(value.width) || !Number.isInteger(value.height)) return false;
+  const shorter = Math.min(value.width, value.height);
+  return shorter >= range.min && shorter <= range.max && Math.max(value.width, value.height) <= shorter * MAX_ASPECT;
+};
+
+// Reference cell count used for physical scaling (h = 1 / N); with square cells this is the shorter side
+export const referenceSize = (size: GridSize) => Math.min(size.width, size.height);
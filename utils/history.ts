@@ -0,0 +1,85 @@
+import { HistoryStatus, Snapshot } from '../types';
+
+// Bounded undo/redo timeline of snapshots, stored in a fixed-capacity ring.
+// The entry under the cursor is the current state; older entries are undo steps, newer ones redo steps.
+// When either the entry count or the byte limit is exceeded the oldest snapshots are dropped.
+export class SnapshotHistory {
+  private ring: (Snapshot | undefined)[];
+  private start = 0; // Ring index of the oldest entry
+  private count = 0;
+  private cursor = -1; // Logical index (0 = oldest) of the current state
+  private bytes = 0;
+  private limitBytes: number;
+
+  constructor(limitBytes: number, capacity = 100) {
+    this.ring = new Array(capacity);
+    this.limitBytes = limitBytes;
+  }
+
+  // Record a new current state. Anything that could have been redone is discarded.
+  push(snapshot: Snapshot) {
+    while (this.count > this.cursor + 1) this.dropNewest();
+    if (this.count === this.ring.length) this.dropOldest();
+
+    this.ring[(this.start + this.count) % this.ring.length] = snapshot;
+    this.count++;
+    this.bytes += snapshot.data.byteLength;
+    this.cursor = this.count - 1;
+    this.enforceLimit();
+  }
+
+  // Step back and return the state to restore, or null at the oldest entry
+  undo(): Snapshot | null {
+    if (this.cursor <= 0) return null;
+    this.cursor--;
+    return this.at(this.cursor);
+  }
+
+  redo(): Snapshot | null {
+    if (this.cursor >= this.count - 1) return null;
+    this.cursor++;
+    return this.at(this.cursor);
+  }
+
+  setLimit(limitBytes: number) {
+    this.limitBytes = limitBytes;
+    this.enforceLimit();
+  }
+
+  clear() {
+    this.ring.fill(undefined);
+    this.start = 0;
+    this.count = 0;
+    this.cursor = -1;
+    this.bytes = 0;
+  }
+
+  get status(): HistoryStatus {
+    return { canUndo: this.cursor > 0, canRedo: this.cursor < this.count - 1, bytes: this.bytes };
+  }
+
+  private at(index: number) {
+    return this.ring[(this.start + index) % this.ring.length]!;
+  }
+
+  // Always keeps the current state, even if it alone is over the limit
+  private enforceLimit() {
+    while (this.bytes > this.limitBytes && this.cursor > 0) this.dropOldest();
+  }
+
+  private dropOldest() {
+    const snapshot = this.at(0);
+    this.ring[this.start] = undefined;
+    this.start = (this.start + 1) % this.ring.length;
+    this.count--;
+    this.cursor--;
+    this.bytes -= snapshot.data.byteLength;
+  }
+
+  private dropNewest() {
+    const index = (this.start + this.count - 1) % this.ring.length;
+    this.bytes -= this.ring[index]!.data.byteLength;
+    this.ring[index] = undefined;
+    this.count--;
+  }
+}
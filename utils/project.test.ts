@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_BRUSH_TUNING, DEFAULT_CONFIG, DEFAULT_RENDER_SETTINGS } from '../constants';
+import { Project, SolverState, ToolMode } from '../types';
+import { createEmitter } from './emitters';
+import { paddedLength } from './grid';
+import { decodeProject, encodeProject } from './project';
+import { decodeState, encodeState } from './snapshot';
+
+const size = { width: 96, height: 64 };
+const dyeSize = { width: 192, height: 128 };
+
+const makeState = (): SolverState => {
+  const length = paddedLength(size);
+  const dyeLength = paddedLength(dyeSize);
+  const state: SolverState = {
+    size,
+    dyeSize,
+    densityR: new Float32Array(dyeLength),
+    densityG: new Float32Array(dyeLength),
+    densityB: new Float32Array(dyeLength),
+    Vx: new Float32Array(length),
+    Vy: new Float32Array(length),
+    temperature: new Float32Array(length),
+    obstacles: new Uint8Array(length)
+  };
+  state.densityR[500] = 0.75;
+  state.Vy[42] = -1.5;
+  state.obstacles[7] = 1;
+  return state;
+};
+
+const makeProject = async (): Promise<Project> => ({
+  config: { ...DEFAULT_CONFIG, resolution: 64, dyeRes: 128 },
+  tools: {
+    mode: ToolMode.WIND,
+    brushSize: 7,
+    smokeColor: '#12ab34',
+    tuning: DEFAULT_BRUSH_TUNING,
+    shape: 'ring',
+    density: 1.5,
+    jitter: 0.25
+  },
+  render: DEFAULT_RENDER_SETTINGS,
+  emitters: [createEmitter(1, 'smoke', 0.5, 0.9, '#ff8800')],
+  snapshot: await encodeState(makeState())
+});
+
+// Rewrite the JSON header of an encoded project
+const withHeader = (bytes: Uint8Array, edit: (header: Record<string, any>) => void) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const length = view.getUint32(6, true);
+  const header = JSON.parse(new TextDecoder().decode(bytes.subarray(10, 10 + length)));
+  edit(header);
+  const encoded = new TextEncoder().encode(JSON.stringify(header));
+  const out = new Uint8Array(10 + encoded.byteLength + bytes.byteLength - 10 - length);
+  out.set(bytes.subarray(0, 10));
+  new DataView(out.buffer).setUint32(6, encoded.byteLength, true);
+  out.set(encoded, 10);
+  out.set(bytes.subarray(10 + length), 10 + encoded.byteLength);
+  return out;
+};
+
+describe('project files', () => {
+  it('round-trips settings and the simulation state', async () => {
+    const project = await makeProject();
+    const decoded = await decodeProject(encodeProject(project));
+    expect(decoded.config).toEqual(project.config);
+    expect(decoded.tools).toEqual(project.tools);
+    expect(decoded.render).toEqual(project.render);
+    expect(decoded.emitters).toEqual(project.emitters);
+    expect(await decodeState(decoded.snapshot)).toEqual(makeState());
+  });
+
+  it('rejects files that are not projects', async () => {
+    await expect(decodeProject(new TextEncoder().encode('hello world'))).rejects.toThrow('Not an Aerograph project');
+  });
+
+  it('rejects other versions and truncated files', async () => {
+    const bytes = encodeProject(await makeProject());
+    const future = bytes.slice();
+    new DataView(future.buffer).setUint16(4, 99, true);
+    await expect(decodeProject(future)).rejects.toThrow('Unsupported project version 99');
+    await expect(decodeProject(bytes.slice(0, 40))).rejects.toThrow('truncated');
+  });
+
+  it('rejects grids outside the offered sizes', async () => {
+    const bytes = encodeProject(await makeProject());
+    const huge = withHeader(bytes, header => (header.size = { width: 100000, height: 100000 }));
+    await expect(decodeProject(huge)).rejects.toThrow('Project header is incomplete');
+    const fractional = withHeader(bytes, header => (header.dyeSize = { width: 192.5, height: 128 }));
+    await expect(decodeProject(fractional)).rejects.toThrow('Project header is incomplete');
+  });
+
+  it('rejects state that does not match its grids', async () => {
+    const bytes = encodeProject(await makeProject());
+    const resized = withHeader(bytes, header => (header.size = { width: 64, height: 64 }));
+    await expect(decodeProject(resized)).rejects.toThrow('Project simulation data is damaged');
+  });
+
+  it('falls back to defaults for settings out of range', async () => {
+    const bytes = withHeader(encodeProject(await makeProject()), header => {
+      header.config.iterations = -5;
+      header.config.resolution = 'big';
+      header.tools = { brushSize: 500, smokeColor: 'red', density: 99, jitter: -1, tuning: { [ToolMode.SMOKE]: { force: 1e9, falloff: 'soft' } } };
+    });
+    const { config, tools } = await decodeProject(bytes);
+    expect(config.iterations).toBe(DEFAULT_CONFIG.iterations);
+    expect(config.resolution).toBe(DEFAULT_CONFIG.resolution);
+    expect(tools.brushSize).toBe(20);
+    expect(tools.smokeColor).toMatch(/^#[0-9a-f]{6}$/);
+    expect(tools.density).toBe(3);
+    expect(tools.jitter).toBe(0);
+    expect(tools.tuning[ToolMode.SMOKE]).toEqual({ force: 20, falloff: DEFAULT_BRUSH_TUNING[ToolMode.SMOKE].falloff });
+  });
+});
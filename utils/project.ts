@@ -0,0 +1,160 @@
+import { BrushTool, BrushTuning, ColormapName, Project, RenderSettings, SimulationConfig, ToolMode } from '../types';
+import {
+  DEFAULT_CONFIG,
+  SMOKE_COLOR,
+  DEFAULT_RENDER_SETTINGS,
+  DEFAULT_BRUSH_TUNING,
+  BRUSH_LIMITS,
+  RESOLUTION_RANGE,
+  DYE_RESOLUTION_RANGE
+} from '../constants';
+import { decodeState } from './snapshot';
+import { rgbToHex } from './color';
+import { parseEmitters } from './emitters';
+import { BRUSH_SHAPES } from './brushPresets';
+import { parseBoundaries } from './boundaries';
+import { isGridWithin } from './grid';
+import { clampNumber, isHexColor, isNumber, isOneOf, isRecord } from './validate';
+
+// .aerograph layout (little-endian):
+//   4 bytes  magic "AERO"
+//   u16      format version
+//   u32      header length in bytes
+//   header   UTF-8 JSON: config, tools, render settings, emitters and the grid sizes of the state
+//   rest     the solver state as packed by utils/snapshot.ts (deflate-raw)
+const MAGIC = 'AERO';
+const PREFIX_BYTES = 10;
+
+// Bump when the layout changes; older files are rejected rather than loaded wrongly
+export const PROJECT_VERSION = 1;
+
+export const PROJECT_EXTENSION = '.aerograph';
+
+// Simulation settings from a file. Each field that's missing, of the wrong type or out of range falls back
+// to its default, so a damaged file can't reach the solver with settings it can't run.
+export const parseConfig = (value: unknown): SimulationConfig => {
+  const stored = isRecord(value) ? value : {};
+  const number = (key: Exclude<keyof SimulationConfig, 'boundaries'>, min: number, max: number, integer = false) => {
+    const v = stored[key];
+    return isNumber(v) && v >= min && v <= max && (!integer || Number.isInteger(v)) ? v : DEFAULT_CONFIG[key];
+  };
+  return {
+    resolution: number('resolution', RESOLUTION_RANGE.min, RESOLUTION_RANGE.max, true),
+    viscosity: number('viscosity', 0, 1),
+    diffusion: number('diffusion', 0, 1),
+    fadeRate: number('fadeRate', 0, 1),
+    iterations: number('iterations', 1, 100, true),
+    dyeRes: number('dyeRes', DYE_RESOLUTION_RANGE.min, DYE_RESOLUTION_RANGE.max, true),
+    vorticity: number('vorticity', 0, 100),
+    buoyancy: number('buoyancy', 0, 100),
+    coolingRate: number('coolingRate', 0, 1),
+    historyLimitMB: number('historyLimitMB', 1, 4096),
+    boundaries: parseBoundaries(stored.boundaries)
+  };
+};
+
+const parseTuning = (value: unknown, tool: BrushTool): BrushTuning => {
+  const defaults = DEFAULT_BRUSH_TUNING[tool];
+  const stored = isRecord(value) ? value[tool] : undefined;
+  if (!isRecord(stored)) return defaults;
+  return {
+    force: clampNumber(stored.force, BRUSH_LIMITS.force.min, BRUSH_LIMITS.force.max, defaults.force),
+    falloff: clampNumber(stored.falloff, BRUSH_LIMITS.falloff.min, BRUSH_LIMITS.falloff.max, defaults.falloff)
+  };
+};
+
+const COLORMAP_NAMES: ColormapName[] = ['fire', 'ice', 'viridis', 'custom'];
+
+const parseRender = (value: unknown): RenderSettings => {
+  const stored = isRecord(value) ? value : {};
+  const overlays = isRecord(stored.overlays) ? stored.overlays : {};
+  const defaults = DEFAULT_RENDER_SETTINGS;
+  const storedStops: unknown[] = Array.isArray(stored.customStops) ? stored.customStops : [];
+  const stops = storedStops.filter((stop): stop is string => typeof stop === 'string' && /^#[0-9a-f]{6}$/i.test(stop));
+  const flag = (key: 'arrows' | 'streamlines' | 'particles') =>
+    typeof overlays[key] === 'boolean' ? overlays[key] : defaults.overlays[key];
+  return {
+    style: typeof stored.style === 'string' ? stored.style : defaults.style,
+    colormap: isOneOf(stored.colormap, COLORMAP_NAMES) ? stored.colormap : defaults.colormap,
+    customStops: stops.length >= 2 ? stops : defaults.customStops,
+    overlays: {
+      arrows: flag('arrows'),
+      streamlines: flag('streamlines'),
+      particles: flag('particles'),
+      particleCount: isNumber(overlays.particleCount) ? overlays.particleCount : defaults.overlays.particleCount,
+      particleLifetime: isNumber(overlays.particleLifetime) ? overlays.particleLifetime : defaults.overlays.particleLifetime
+    }
+  };
+};
+
+export const encodeProject = ({ config, tools, render, emitters, snapshot }: Project): Uint8Array => {
+  const header = new TextEncoder().encode(
+    JSON.stringify({ config, tools, render, emitters, size: snapshot.size, dyeSize: snapshot.dyeSize })
+  );
+  const bytes = new Uint8Array(PREFIX_BYTES + header.byteLength + snapshot.data.byteLength);
+  const view = new DataView(bytes.buffer);
+  for (let i = 0; i < MAGIC.length; i++) bytes[i] = MAGIC.charCodeAt(i);
+  view.setUint16(4, PROJECT_VERSION, true);
+  view.setUint32(6, header.byteLength, true);
+  bytes.set(header, PREFIX_BYTES);
+  bytes.set(snapshot.data, PREFIX_BYTES + header.byteLength);
+  return bytes;
+};
+
+// Parse and validate a project file, throwing a readable error for anything we can't open.
+// The state is decompressed once here so a damaged file fails before it replaces the canvas.
+export const decodeProject = async (bytes: Uint8Array): Promise<Project> => {
+  if (bytes.byteLength < PREFIX_BYTES || String.fromCharCode(...bytes.subarray(0, 4)) !== MAGIC) {
+    throw new Error('Not an Aerograph project');
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const version = view.getUint16(4, true);
+  if (version !== PROJECT_VERSION) {
+    throw new Error(`Unsupported project version ${version} (expected ${PROJECT_VERSION})`);
+  }
+  const headerLength = view.getUint32(6, true);
+  if (PREFIX_BYTES + headerLength > bytes.byteLength) throw new Error('Project file is truncated');
+
+  let header: unknown;
+  try {
+    header = JSON.parse(new TextDecoder().decode(bytes.subarray(PREFIX_BYTES, PREFIX_BYTES + headerLength)));
+  } catch {
+    throw new Error('Project header is not valid JSON');
+  }
+  if (!isRecord(header) || !isRecord(header.config) || !isGridWithin(header.size, RESOLUTION_RANGE) || !isGridWithin(header.dyeSize, DYE_RESOLUTION_RANGE)) {
+    throw new Error('Project header is incomplete');
+  }
+
+  const snapshot = {
+    size: { width: header.size.width, height: header.size.height },
+    dyeSize: { width: header.dyeSize.width, height: header.dyeSize.height },
+    data: bytes.slice(PREFIX_BYTES + headerLength)
+  };
+  try {
+    await decodeState(snapshot);
+  } catch {
+    throw new Error('Project simulation data is damaged');
+  }
+
+  // Settings added after a file was written fall back to their defaults
+  const tools = isRecord(header.tools) ? header.tools : {};
+  return {
+    config: parseConfig(header.config),
+    tools: {
+      mode: isOneOf(tools.mode, Object.values(ToolMode)) ? tools.mode : ToolMode.SMOKE,
+      brushSize: Math.round(clampNumber(tools.brushSize, BRUSH_LIMITS.size.min, BRUSH_LIMITS.size.max, 4)),
+      smokeColor: isHexColor(tools.smokeColor) ? tools.smokeColor : rgbToHex(SMOKE_COLOR),
+      tuning: {
+        [ToolMode.SMOKE]: parseTuning(tools.tuning, ToolMode.SMOKE),
+        [ToolMode.WIND]: parseTuning(tools.tuning, ToolMode.WIND),
+        [ToolMode.ERASER]: parseTuning(tools.tuning, ToolMode.ERASER)
+      },
+      shape: isOneOf(tools.shape, BRUSH_SHAPES.map(s => s.kind)) ? tools.shape : 'disc',
+      density: clampNumber(tools.density, BRUSH_LIMITS.density.min, BRUSH_LIMITS.density.max, 1),
+      jitter: clampNumber(tools.jitter, BRUSH_LIMITS.jitter.min, BRUSH_LIMITS.jitter.max, 0)
+    },
+    render: parseRender(header.render),
+    emitters: parseEmitters(header.emitters),
+    snapshot
+  };
+};
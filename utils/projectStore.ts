@@ -0,0 +1,17 @@
+// IndexedDB autosave: the last session's project file, restored on the next visit
+import { AUTOSAVE_STORE, withStore } from './database';
+
+const KEY = 'last';
+
+export const saveAutosave = async (bytes: Uint8Array) => {
+  await withStore(AUTOSAVE_STORE, 'readwrite', store => store.put(bytes, KEY));
+};
+
+export const loadAutosave = async (): Promise<Uint8Array | null> => {
+  const value = await withStore(AUTOSAVE_STORE, 'readonly', store => store.get(KEY));
+  return value instanceof Uint8Array ? value : null;
+};
+
+export const clearAutosave = async () => {
+  await withStore(AUTOSAVE_STORE, 'readwrite', store => store.delete(KEY));
+};
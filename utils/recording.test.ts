@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_CONFIG } from '../constants';
+import { BrushEvent, StrokeRecording, ToolMode } from '../types';
+import { createEmitter } from './emitters';
+import { RECORDING_VERSION, interpolatesStrokes, parseRecording, serializeRecording } from './recording';
+
+const event = (step: number): BrushEvent => ({
+  step,
+  x: 40,
+  y: 30,
+  dx: 1.5,
+  dy: -0.5,
+  mode: ToolMode.SMOKE,
+  brushSize: 6,
+  density: 1.2,
+  force: 5,
+  falloff: 0.6,
+  shape: 'gaussian',
+  jitter: 0,
+  color: { r: 1, g: 0.5, b: 0.25 }
+});
+
+const recording: StrokeRecording = {
+  version: RECORDING_VERSION,
+  dt: 0.016,
+  config: DEFAULT_CONFIG,
+  size: { width: 128, height: 128 },
+  dyeSize: { width: 256, height: 256 },
+  steps: 30,
+  events: [event(0), event(3), event(3), event(10)],
+  emitters: [createEmitter(1, 'wind', 0.1, 0.5, '#ffffff')]
+};
+
+const edited = (edit: (data: Record<string, any>) => void) => {
+  const data = JSON.parse(serializeRecording(recording));
+  edit(data);
+  return JSON.stringify(data);
+};
+
+describe('stroke recordings', () => {
+  it('round-trips through a file', () => {
+    expect(parseRecording(serializeRecording(recording))).toEqual(recording);
+  });
+
+  it('reads version 1 files and replays them without interpolation', () => {
+    const legacy = parseRecording(edited(data => (data.version = 1)));
+    expect(legacy.version).toBe(1);
+    expect(interpolatesStrokes(legacy)).toBe(false);
+    expect(interpolatesStrokes(recording)).toBe(true);
+  });
+
+  it('fills in brush settings older files lack', () => {
+    const parsed = parseRecording(
+      edited(data => {
+        for (const e of data.events) {
+          delete e.density;
+          delete e.force;
+          delete e.falloff;
+          delete e.shape;
+          delete e.jitter;
+        }
+      })
+    );
+    expect(parsed.events[0]).toMatchObject({ density: 1, force: 5, falloff: 0, shape: 'disc', jitter: 0 });
+  });
+
+  it('rejects text that is not a recording', () => {
+    expect(() => parseRecording('not json')).toThrow('Recording is not valid JSON');
+    expect(() => parseRecording('null')).toThrow('Recording is empty');
+    expect(() => parseRecording(edited(data => (data.version = 7)))).toThrow('Unsupported recording version 7');
+    expect(() => parseRecording(edited(data => delete data.events))).toThrow('Recording has no events');
+  });
+
+  it('rejects grids a solver could not be built on', () => {
+    expect(() => parseRecording(edited(data => (data.size = { width: 1e6, height: 1e6 })))).toThrow('Recording header is incomplete');
+    expect(() => parseRecording(edited(data => (data.size = { width: 128.5, height: 128 })))).toThrow('Recording header is incomplete');
+    expect(() => parseRecording(edited(data => (data.dyeSize = { width: 2048, height: 8 })))).toThrow('Recording header is incomplete');
+  });
+
+  it('rejects malformed or out-of-order events', () => {
+    expect(() => parseRecording(edited(data => (data.events[1].mode = 'paint')))).toThrow('malformed brush event');
+    expect(() => parseRecording(edited(data => (data.events[1].color = '#ffffff')))).toThrow('malformed brush event');
+    expect(() => parseRecording(edited(data => (data.events[1].density = 'thick')))).toThrow('malformed brush event');
+    expect(() => parseRecording(edited(data => (data.events[2].step = 1)))).toThrow('Recording events are out of order');
+  });
+
+  it('clamps brush sizes past what pointer dynamics can reach', () => {
+    const parsed = parseRecording(edited(data => (data.events[0].brushSize = 1e9)));
+    expect(parsed.events[0].brushSize).toBeLessThan(100);
+  });
+});
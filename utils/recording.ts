@@ -0,0 +1,95 @@
+import { BrushEvent, RGBColor, StrokeRecording, ToolMode } from '../types';
+import { parseEmitters } from './emitters';
+import { BRUSH_SHAPES } from './brushPresets';
+import { parseConfig } from './project';
+import { isGridWithin } from './grid';
+import { MAX_DYNAMICS_SIZE } from './brush';
+import { BRUSH_LIMITS, RESOLUTION_RANGE, DYE_RESOLUTION_RANGE } from '../constants';
+import { clampNumber, isNumber, isOneOf, isRecord } from './validate';
+
+// Bump when the file layout or the way events are stamped changes. Version 2 stamps each event along the
+// pointer's path; version 1 files are still read and replay with one stamp per event.
+export const RECORDING_VERSION = 2;
+const LEGACY_VERSION = 1;
+
+// Whether a recording's events are stamped along the pointer's path, see brushSplats
+export const interpolatesStrokes = (recording: StrokeRecording) => recording.version >= 2;
+
+export const serializeRecording = (recording: StrokeRecording) => JSON.stringify(recording);
+
+const isColor = (value: unknown): value is RGBColor =>
+  isRecord(value) && isNumber(value.r) && isNumber(value.g) && isNumber(value.b);
+
+const optionalNumber = (value: unknown, fallback: number) => (value === undefined ? fallback : isNumber(value) ? value : null);
+
+// Brush events without a density were plain mouse strokes, and without a force the old fixed hard disc
+const parseEvent = (value: unknown): BrushEvent | null => {
+  if (!isRecord(value)) return null;
+  const { step, x, y, dx, dy, brushSize, mode, color } = value;
+  if (!isNumber(step) || !isNumber(x) || !isNumber(y) || !isNumber(dx) || !isNumber(dy) || !isNumber(brushSize)) return null;
+  if (!isOneOf(mode, Object.values(ToolMode)) || !isColor(color)) return null;
+  const density = optionalNumber(value.density, 1);
+  const force = optionalNumber(value.force, 5);
+  const falloff = optionalNumber(value.falloff, 0);
+  const jitter = optionalNumber(value.jitter, 0);
+  const shape = value.shape === undefined ? 'disc' : isOneOf(value.shape, BRUSH_SHAPES.map(s => s.kind)) ? value.shape : null;
+  if (density === null || force === null || falloff === null || jitter === null || shape === null) return null;
+  return {
+    step,
+    x,
+    y,
+    dx,
+    dy,
+    mode,
+    // Recorded sizes include pointer dynamics, so they can go past the slider by up to that factor
+    brushSize: clampNumber(brushSize, BRUSH_LIMITS.size.min / 2, BRUSH_LIMITS.size.max * MAX_DYNAMICS_SIZE, brushSize),
+    density,
+    force,
+    falloff,
+    shape,
+    jitter,
+    color: { r: color.r, g: color.g, b: color.b }
+  };
+};
+
+// Parse and validate a recording file, throwing a readable error for anything we can't replay
+export const parseRecording = (text: string): StrokeRecording => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Recording is not valid JSON');
+  }
+
+  if (!isRecord(data)) throw new Error('Recording is empty');
+  const { version } = data;
+  if (version !== RECORDING_VERSION && version !== LEGACY_VERSION) {
+    throw new Error(`Unsupported recording version ${version} (expected ${RECORDING_VERSION})`);
+  }
+  const { dt, steps, config, size, dyeSize } = data;
+  if (!isNumber(dt) || !isNumber(steps) || !isRecord(config) || !isGridWithin(size, RESOLUTION_RANGE) || !isGridWithin(dyeSize, DYE_RESOLUTION_RANGE)) {
+    throw new Error('Recording header is incomplete');
+  }
+  if (!Array.isArray(data.events)) throw new Error('Recording has no events');
+
+  const events: BrushEvent[] = [];
+  for (const value of data.events) {
+    const event = parseEvent(value);
+    if (!event) throw new Error('Recording contains a malformed brush event');
+    // Replays walk the events once, in order
+    if (events.length > 0 && event.step < events[events.length - 1].step) throw new Error('Recording events are out of order');
+    events.push(event);
+  }
+
+  // Recordings made before emitters, boundary settings, pressure sensing, brush tuning or presets existed get the defaults
+  return {
+    version,
+    dt,
+    config: parseConfig(config),
+    size: { width: size.width, height: size.height },
+    dyeSize: { width: dyeSize.width, height: dyeSize.height },
+    steps,
+    events,
+    emitters: parseEmitters(data.emitters)
+  };
+};
@@ -0,0 +1,168 @@
+// Render styles turn a frame into pixels. Each style is registered here by id; the renderer and the settings
+// panel only look styles up, so adding one is a matter of registering it.
+
+import { DyeFrame, FlowFields } from '../types';
+import { COLORMAP_SIZE, DIVERGING_STOPS, buildColormap } from './colormaps';
+
+export interface RenderContext {
+  velocityCell: Int32Array; // Velocity grid cell under each padded dye pixel (nearest)
+  colormap: Uint8Array; // COLORMAP_SIZE RGB entries, as picked in the settings
+}
+
+export interface RenderStyle {
+  id: string;
+  label: string;
+  flow: boolean; // Needs frame.flow
+  usesColormap: boolean; // Shows the colormap picker in the settings
+  // Fill RGBA pixels for the padded dye grid. Obstacles are painted over the result by the renderer.
+  paint(frame: DyeFrame, pixels: Uint8ClampedArray, context: RenderContext): void;
+}
+
+const styles = new Map<string, RenderStyle>();
+
+export const registerRenderStyle = (style: RenderStyle) => {
+  styles.set(style.id, style);
+};
+
+export const renderStyles = (): RenderStyle[] => [...styles.values()];
+
+// Unknown ids (e.g. from an older project file) fall back to plain smoke
+export const getRenderStyle = (id: string): RenderStyle => styles.get(id) ?? styles.get('smoke')!;
+
+// --- Helpers ---
+
+const diverging = buildColormap(DIVERGING_STOPS);
+
+const writeColor = (pixels: Uint8ClampedArray, pixel: number, colormap: Uint8Array, t: number) => {
+  const entry = Math.min(Math.max(Math.round(t * (COLORMAP_SIZE - 1)), 0), COLORMAP_SIZE - 1) * 3;
+  pixels[pixel * 4] = colormap[entry];
+  pixels[pixel * 4 + 1] = colormap[entry + 1];
+  pixels[pixel * 4 + 2] = colormap[entry + 2];
+  pixels[pixel * 4 + 3] = 255;
+};
+
+// Below this the field is treated as empty, so still air doesn't get its rounding noise stretched to full range
+const MIN_RANGE = 1e-4;
+
+// Color a velocity grid scalar onto the dye pixels, normalized by the frame's largest value.
+// Signed fields put zero in the middle of the colormap.
+const paintScalar = (
+  field: Float32Array,
+  signed: boolean,
+  pixels: Uint8ClampedArray,
+  context: RenderContext,
+  colormap: Uint8Array
+) => {
+  let range = MIN_RANGE;
+  for (let i = 0; i < field.length; i++) range = Math.max(range, Math.abs(field[i]));
+  const { velocityCell } = context;
+  for (let i = 0; i < velocityCell.length; i++) {
+    const value = field[velocityCell[i]] / range;
+    writeColor(pixels, i, colormap, signed ? 0.5 + 0.5 * value : value);
+  }
+};
+
+let scratch = new Float32Array(0);
+
+// Derive a scalar per velocity cell (inner cells only, the boundary ring stays 0)
+const deriveField = (frame: DyeFrame, flow: FlowFields, derive: (i: number, stride: number) => number) => {
+  const { width, height } = frame.size;
+  const stride = width + 2;
+  if (scratch.length !== flow.Vx.length) scratch = new Float32Array(flow.Vx.length);
+  scratch.fill(0);
+  for (let y = 1; y <= height; y++) {
+    for (let x = 1; x <= width; x++) {
+      const i = x + stride * y;
+      scratch[i] = derive(i, stride);
+    }
+  }
+  return scratch;
+};
+
+// --- Built-in styles ---
+
+registerRenderStyle({
+  id: 'smoke',
+  label: 'Smoke',
+  flow: false,
+  usesColormap: false,
+  paint(frame, pixels) {
+    // Optimization: Loop directly through the channel arrays
+    const { densityR, densityG, densityB } = frame;
+    for (let i = 0; i < densityR.length; i++) {
+      const pixelIndex = i * 4;
+      const r = densityR[i];
+      const g = densityG[i];
+      const b = densityB[i];
+
+      // The strongest channel drives opacity, the ratios between channels give the hue.
+      // Pure white dye therefore renders exactly like the old single-channel smoke.
+      const d = Math.max(r, g, b);
+      const norm = d > 0 ? 255 / d : 0;
+
+      // RGBA
+      pixels[pixelIndex] = r * norm;     // R
+      pixels[pixelIndex + 1] = g * norm; // G
+      pixels[pixelIndex + 2] = b * norm; // B
+      pixels[pixelIndex + 3] = d;        // Alpha based on density (clamped by Uint8ClampedArray)
+    }
+  }
+});
+
+registerRenderStyle({
+  id: 'density',
+  label: 'Density',
+  flow: false,
+  usesColormap: true,
+  paint(frame, pixels, context) {
+    const { densityR, densityG, densityB } = frame;
+    for (let i = 0; i < densityR.length; i++) {
+      // Same scale as the smoke's opacity: 255 and above is fully dense
+      writeColor(pixels, i, context.colormap, Math.max(densityR[i], densityG[i], densityB[i]) / 255);
+    }
+  }
+});
+
+registerRenderStyle({
+  id: 'speed',
+  label: 'Velocity',
+  flow: true,
+  usesColormap: true,
+  paint(frame, pixels, context) {
+    const { Vx, Vy } = frame.flow!;
+    const speed = deriveField(frame, frame.flow!, i => Math.hypot(Vx[i], Vy[i]));
+    paintScalar(speed, false, pixels, context, context.colormap);
+  }
+});
+
+registerRenderStyle({
+  id: 'vorticity',
+  label: 'Vorticity',
+  flow: true,
+  usesColormap: false,
+  paint(frame, pixels, context) {
+    const { Vx, Vy } = frame.flow!;
+    const curl = deriveField(frame, frame.flow!, (i, stride) => 0.5 * (Vy[i + 1] - Vy[i - 1] - (Vx[i + stride] - Vx[i - stride])));
+    paintScalar(curl, true, pixels, context, diverging);
+  }
+});
+
+registerRenderStyle({
+  id: 'pressure',
+  label: 'Pressure (debug)',
+  flow: true,
+  usesColormap: false,
+  paint(frame, pixels, context) {
+    paintScalar(frame.flow!.pressure, true, pixels, context, diverging);
+  }
+});
+
+registerRenderStyle({
+  id: 'divergence',
+  label: 'Divergence (debug)',
+  flow: true,
+  usesColormap: false,
+  paint(frame, pixels, context) {
+    paintScalar(frame.flow!.divergence, true, pixels, context, diverging);
+  }
+});
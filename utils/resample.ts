@@ -0,0 +1,67 @@
+import { GridSize, SolverState } from '../types';
+import { sameSize } from './grid';
+
+// Bilinearly resample a padded field onto another padded grid.
+// Cell centres are matched in normalized domain coordinates so the picture keeps its placement;
+// when the aspect ratio changes the picture is stretched to the new shape.
+const resampleField = (src: Float32Array, from: GridSize, to: GridSize): Float32Array => {
+  if (sameSize(from, to)) return src;
+  const srcW = from.width + 2;
+  const dstW = to.width + 2;
+  const dstH = to.height + 2;
+  const dst = new Float32Array(dstW * dstH);
+  const scaleX = from.width / to.width;
+  const scaleY = from.height / to.height;
+
+  for (let j = 0; j < dstH; j++) {
+    // Inner cell j (1..height) covers [j-1, j] in destination cells; map its centre into source cells
+    const y = Math.max(0.5, Math.min((j - 0.5) * scaleY + 0.5, from.height + 0.5));
+    const j0 = Math.floor(y);
+    const ty = y - j0;
+    for (let i = 0; i < dstW; i++) {
+      const x = Math.max(0.5, Math.min((i - 0.5) * scaleX + 0.5, from.width + 0.5));
+      const i0 = Math.floor(x);
+      const tx = x - i0;
+      dst[i + dstW * j] =
+        (1 - tx) * ((1 - ty) * src[i0 + srcW * j0] + ty * src[i0 + srcW * (j0 + 1)]) +
+        tx * ((1 - ty) * src[i0 + 1 + srcW * j0] + ty * src[i0 + 1 + srcW * (j0 + 1)]);
+    }
+  }
+  return dst;
+};
+
+// Nearest-neighbour resampling for the obstacle mask, which must stay binary
+const resampleMask = (src: Uint8Array, from: GridSize, to: GridSize): Uint8Array => {
+  const srcW = from.width + 2;
+  const dstW = to.width + 2;
+  const dst = new Uint8Array(dstW * (to.height + 2));
+  const scaleX = from.width / to.width;
+  const scaleY = from.height / to.height;
+
+  for (let j = 1; j <= to.height; j++) {
+    const sj = Math.max(1, Math.min(Math.floor((j - 0.5) * scaleY) + 1, from.height));
+    for (let i = 1; i <= to.width; i++) {
+      const si = Math.max(1, Math.min(Math.floor((i - 0.5) * scaleX) + 1, from.width));
+      dst[i + dstW * j] = src[si + srcW * sj];
+    }
+  }
+  return dst;
+};
+
+// Carry a simulation over to different velocity and dye grid sizes
+export const resampleState = (state: SolverState, size: GridSize, dyeSize: GridSize): SolverState => {
+  if (sameSize(state.size, size) && sameSize(state.dyeSize, dyeSize)) return state;
+  const from = state.size;
+  const dyeFrom = state.dyeSize;
+  return {
+    size,
+    dyeSize,
+    densityR: resampleField(state.densityR, dyeFrom, dyeSize),
+    densityG: resampleField(state.densityG, dyeFrom, dyeSize),
+    densityB: resampleField(state.densityB, dyeFrom, dyeSize),
+    Vx: resampleField(state.Vx, from, size),
+    Vy: resampleField(state.Vy, from, size),
+    temperature: resampleField(state.temperature, from, size),
+    obstacles: resampleMask(state.obstacles, from, size)
+  };
+};
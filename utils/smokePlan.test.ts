@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { createMockPlanProvider, OFFLINE_PLANS } from '../services/mockPlanProvider';
+import { parseSmokePlan } from './smokePlan';
+
+describe('smoke plans', () => {
+  it('keeps valid plans as they are', () => {
+    for (const plan of OFFLINE_PLANS) expect(parseSmokePlan(JSON.parse(JSON.stringify(plan)))).toEqual(plan);
+  });
+
+  it('rejects plans with nothing to play', () => {
+    expect(() => parseSmokePlan(null)).toThrow('no strokes or emitters');
+    expect(() => parseSmokePlan({ title: 'Empty', strokes: [], emitters: [] })).toThrow('no strokes or emitters');
+    expect(() =>
+      parseSmokePlan({ strokes: [{ points: [{ x: 0.5, y: 0.5 }] }, { points: 'everywhere' }], emitters: [{ kind: 'volcano', x: 0.5, y: 0.5 }] })
+    ).toThrow('no strokes or emitters');
+  });
+
+  it('clamps numbers and fills in missing fields', () => {
+    const plan = parseSmokePlan({
+      strokes: [{ points: [{ x: -1, y: 0.5 }, { x: 2, y: 'up' }, { x: 0.5, y: 3 }], tool: 'brush', color: 'blue', size: 50, force: -4, start: -1, duration: 0 }],
+      emitters: [{ kind: 'sink', x: 0.5, y: 0.5, rate: 9, radius: 100 }]
+    });
+    expect(plan.title).toBe('Untitled');
+    expect(plan.strokes).toEqual([
+      { points: [{ x: 0, y: 0.5 }, { x: 0.5, y: 1 }], tool: 'smoke', color: '#ffffff', size: 20, force: 0, start: 0, duration: 0.1 }
+    ]);
+    expect(plan.emitters[0]).toMatchObject({ kind: 'sink', rate: 1, radius: 20, angle: -90, duration: 0 });
+  });
+
+  it('plays offline plans through the mock provider', async () => {
+    const provider = createMockPlanProvider(OFFLINE_PLANS);
+    expect((await provider.plan('a spiral of smoke')).title).toBe('Spiral galaxy');
+    expect((await provider.plan('something else entirely')).title).toBe(OFFLINE_PLANS[0].title);
+  });
+
+  it('validates the plans a mock provider is given', async () => {
+    await expect(createMockPlanProvider(() => ({ title: 'Nothing', strokes: [], emitters: [] })).plan('anything')).rejects.toThrow(
+      'no strokes or emitters'
+    );
+  });
+
+  it('stops when aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(createMockPlanProvider(OFFLINE_PLANS).plan('waves', controller.signal)).rejects.toThrow();
+  });
+});
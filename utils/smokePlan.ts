@@ -0,0 +1,181 @@
+import { BrushEvent, BrushTool, BrushTuning, Emitter, GridSize, PlannedEmitter, PlannedStroke, SmokePlan, ToolMode } from '../types';
+import { STEPS_PER_SECOND } from '../constants';
+import { hexToRgb } from './color';
+import { EMITTER_KINDS } from './emitters';
+import { isNumber, isOneOf, isRecord } from './validate';
+
+// Generous limits for a model's plan; anything past them is clamped or dropped
+const MAX_STROKES = 24;
+const MAX_POINTS = 64;
+const MAX_EMITTERS = 8;
+const MAX_START = 20; // Seconds
+const MAX_DURATION = 10;
+
+const TOOLS: Record<PlannedStroke['tool'], BrushTool> = {
+  smoke: ToolMode.SMOKE,
+  wind: ToolMode.WIND,
+  eraser: ToolMode.ERASER
+};
+
+const clamp = (value: unknown, min: number, max: number, fallback: number) =>
+  isNumber(value) ? Math.min(Math.max(value, min), max) : fallback;
+const color = (value: unknown) => (typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value) ? value : '#ffffff');
+
+// Check a plan from a model (or a file) and bring every number into range. Strokes without at least two
+// usable points and emitters of unknown kinds are dropped; throws if nothing playable is left.
+export const parseSmokePlan = (value: unknown): SmokePlan => {
+  const data = isRecord(value) ? value : {};
+  const list = (items: unknown): unknown[] => (Array.isArray(items) ? items : []);
+
+  const strokes: PlannedStroke[] = list(data.strokes)
+    .filter(isRecord)
+    .map(s => ({
+      points: list(s.points)
+        .filter((p): p is { x: number; y: number } => isRecord(p) && isNumber(p.x) && isNumber(p.y))
+        .slice(0, MAX_POINTS)
+        .map(p => ({ x: clamp(p.x, 0, 1, 0), y: clamp(p.y, 0, 1, 0) })),
+      tool: isOneOf(s.tool, Object.keys(TOOLS) as PlannedStroke['tool'][]) ? s.tool : 'smoke',
+      color: color(s.color),
+      size: clamp(s.size, 1, 20, 4),
+      force: clamp(s.force, 0, 20, 5),
+      start: clamp(s.start, 0, MAX_START, 0),
+      duration: clamp(s.duration, 0.1, MAX_DURATION, 1)
+    }))
+    .filter(s => s.points.length >= 2)
+    .slice(0, MAX_STROKES);
+
+  const kinds = EMITTER_KINDS.map(k => k.kind);
+  const emitters: PlannedEmitter[] = [];
+  for (const e of list(data.emitters)) {
+    if (emitters.length >= MAX_EMITTERS) break;
+    if (!isRecord(e) || !isOneOf(e.kind, kinds) || !isNumber(e.x) || !isNumber(e.y)) continue;
+    emitters.push({
+      kind: e.kind,
+      x: clamp(e.x, 0, 1, 0.5),
+      y: clamp(e.y, 0, 1, 0.5),
+      angle: clamp(e.angle, -180, 180, -90),
+      rate: clamp(e.rate, 0, 1, 0.5),
+      radius: clamp(e.radius, 1, 20, 3),
+      color: color(e.color),
+      start: clamp(e.start, 0, MAX_START, 0),
+      duration: clamp(e.duration, 0, MAX_DURATION, 0)
+    });
+  }
+
+  if (strokes.length === 0 && emitters.length === 0) throw new Error('The plan has no strokes or emitters to play');
+  const title = typeof data.title === 'string' && data.title.trim() ? data.title.trim().slice(0, 200) : 'Untitled';
+  return { title, strokes, emitters };
+};
+
+// A plan laid out step by step, ready to feed to the solver
+export interface PlanTimeline {
+  events: { step: number; event: Omit<BrushEvent, 'step'>; last: boolean }[]; // `last` ends a stroke
+  starts: { step: number; emitter: Emitter }[];
+  stops: { step: number; id: number }[];
+  steps: number; // Length of the plan
+}
+
+const toStep = (seconds: number) => Math.round(seconds * STEPS_PER_SECOND);
+
+// Sample each stroke once per step along its path, evenly by distance, the way a steady hand would drag.
+// Positions are on the velocity grid of `size`, like pointer input. Emitters get ids from `firstEmitterId` up.
+export const planTimeline = (plan: SmokePlan, size: GridSize, tuning: Record<BrushTool, BrushTuning>, firstEmitterId: number): PlanTimeline => {
+  const events: PlanTimeline['events'] = [];
+  const toGrid = (p: { x: number; y: number }) => ({ x: p.x * (size.width + 2), y: p.y * (size.height + 2) });
+
+  for (const stroke of plan.strokes) {
+    const points = stroke.points.map(toGrid);
+    const lengths = [0];
+    for (let i = 1; i < points.length; i++) {
+      lengths.push(lengths[i - 1] + Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y));
+    }
+    const total = lengths[lengths.length - 1];
+    const pointAt = (distance: number) => {
+      let i = 1;
+      while (i < points.length - 1 && lengths[i] < distance) i++;
+      const span = lengths[i] - lengths[i - 1];
+      const t = span > 0 ? (distance - lengths[i - 1]) / span : 0;
+      return { x: points[i - 1].x + (points[i].x - points[i - 1].x) * t, y: points[i - 1].y + (points[i].y - points[i - 1].y) * t };
+    };
+
+    const mode = TOOLS[stroke.tool];
+    const samples = Math.max(1, toStep(stroke.duration));
+    const first = toStep(stroke.start);
+    let previous = points[0];
+    for (let k = 1; k <= samples; k++) {
+      const current = pointAt((total * k) / samples);
+      events.push({
+        step: first + k - 1,
+        last: k === samples,
+        event: {
+          x: current.x,
+          y: current.y,
+          dx: current.x - previous.x,
+          dy: current.y - previous.y,
+          mode,
+          brushSize: stroke.size,
+          density: 1,
+          force: stroke.force,
+          falloff: tuning[mode].falloff,
+          shape: 'disc',
+          jitter: 0,
+          color: hexToRgb(stroke.color)
+        }
+      });
+      previous = current;
+    }
+  }
+  events.sort((a, b) => a.step - b.step);
+
+  const starts: PlanTimeline['starts'] = [];
+  const stops: PlanTimeline['stops'] = [];
+  plan.emitters.forEach((planned, i) => {
+    const { start, duration, ...rest } = planned;
+    const emitter: Emitter = { ...rest, id: firstEmitterId + i, oscillation: 'none', amplitude: 30, period: 2 };
+    starts.push({ step: toStep(start), emitter });
+    if (duration > 0) stops.push({ step: toStep(start + duration), id: emitter.id });
+  });
+  starts.sort((a, b) => a.step - b.step);
+  stops.sort((a, b) => a.step - b.step);
+
+  const steps = Math.max(0, ...events.map(e => e.step + 1), ...starts.map(s => s.step + 1), ...stops.map(s => s.step + 1));
+  return { events, starts, stops, steps };
+};
+
+// Walks a timeline one simulation step at a time
+export class PlanPlayer {
+  private step = 0;
+  private eventIndex = 0;
+  private startIndex = 0;
+  private stopIndex = 0;
+
+  constructor(private timeline: PlanTimeline) {}
+
+  get done() {
+    return this.step >= this.timeline.steps;
+  }
+
+  get progress() {
+    return this.timeline.steps > 0 ? Math.min(this.step / this.timeline.steps, 1) : 1;
+  }
+
+  // What is due before the next step; call once per step taken
+  next() {
+    const { events, starts, stops } = this.timeline;
+    const due = {
+      events: [] as Omit<BrushEvent, 'step'>[],
+      strokeEnded: false,
+      started: [] as Emitter[],
+      stopped: [] as number[]
+    };
+    while (this.eventIndex < events.length && events[this.eventIndex].step <= this.step) {
+      const { event, last } = events[this.eventIndex++];
+      due.events.push(event);
+      if (last) due.strokeEnded = true;
+    }
+    while (this.startIndex < starts.length && starts[this.startIndex].step <= this.step) due.started.push(starts[this.startIndex++].emitter);
+    while (this.stopIndex < stops.length && stops[this.stopIndex].step <= this.step) due.stopped.push(stops[this.stopIndex++].id);
+    this.step++;
+    return due;
+  }
+}
@@ -0,0 +1,58 @@
+import { SolverState, Snapshot } from '../types';
+import { compress, decompress } from './compression';
+import { paddedLength } from './grid';
+
+// Field order inside the packed buffer: dye channels, then velocity and heat, then the obstacle mask
+const floatFields = (state: SolverState) => [
+  state.densityR,
+  state.densityG,
+  state.densityB,
+  state.Vx,
+  state.Vy,
+  state.temperature
+];
+
+export const encodeState = async (state: SolverState): Promise<Snapshot> => {
+  const fields = floatFields(state);
+  let length = state.obstacles.byteLength;
+  for (const field of fields) length += field.byteLength;
+
+  const raw = new Uint8Array(length);
+  let offset = 0;
+  for (const field of [...fields, state.obstacles]) {
+    raw.set(new Uint8Array(field.buffer, field.byteOffset, field.byteLength), offset);
+    offset += field.byteLength;
+  }
+
+  return { size: state.size, dyeSize: state.dyeSize, data: await compress(raw) };
+};
+
+export const decodeState = async (snapshot: Snapshot): Promise<SolverState> => {
+  const raw = await decompress(snapshot.data);
+  const length = paddedLength(snapshot.size);
+  const dyeLength = paddedLength(snapshot.dyeSize);
+  if (raw.byteLength !== (dyeLength * 3 + length * 3) * 4 + length) {
+    throw new Error('Snapshot data does not match its grid sizes');
+  }
+
+  // Copy out of the decompressed buffer so every field owns its own (aligned) memory
+  let offset = 0;
+  const floats = (count: number) => {
+    const field = new Float32Array(count);
+    new Uint8Array(field.buffer).set(raw.subarray(offset, offset + count * 4));
+    offset += count * 4;
+    return field;
+  };
+
+  return {
+    size: snapshot.size,
+    dyeSize: snapshot.dyeSize,
+    densityR: floats(dyeLength),
+    densityG: floats(dyeLength),
+    densityB: floats(dyeLength),
+    Vx: floats(length),
+    Vy: floats(length),
+    temperature: floats(length),
+    obstacles: raw.slice(offset, offset + length)
+  };
+};
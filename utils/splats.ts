@@ -0,0 +1,54 @@
+import { GridSize, Splat } from '../types';
+import { sameSize } from './grid';
+
+// Integer splat centre, clamped to the inner grid (1 to width / height) to prevent edge loss
+export const splatCenter = (size: GridSize, splat: Splat) => ({
+  x: Math.max(1, Math.min(Math.floor(splat.x), size.width)),
+  y: Math.max(1, Math.min(Math.floor(splat.y), size.height))
+});
+
+// Map a splat from one grid onto another covering the same domain (e.g. velocity grid -> dye grid)
+export const scaleSplat = <T extends Splat>(splat: T, from: GridSize, to: GridSize): T => {
+  if (sameSize(from, to)) return splat;
+  const fx = to.width / from.width;
+  const fy = to.height / from.height;
+  return {
+    ...splat,
+    x: 1 + (splat.x - 1) * fx,
+    y: 1 + (splat.y - 1) * fy,
+    radius: Math.round(splat.radius * fx)
+  };
+};
+
+// Strength of a splat at a cell: 1 across a hard disc, fading towards the rim as `falloff` goes to 1.
+// Measured from the exact (sub-cell) centre, so soft stamps glide between cells instead of snapping.
+// The GPU splat shader computes the same weight.
+export const splatWeight = (splat: Splat, x: number, y: number) => {
+  const falloff = 'falloff' in splat ? splat.falloff ?? 0 : 0;
+  if (falloff <= 0) return 1;
+  const sigma = Math.max(splat.radius, 1) / 2;
+  // Cell x covers [x, x + 1) in splat coordinates
+  const dx = x + 0.5 - splat.x;
+  const dy = y + 0.5 - splat.y;
+  return 1 - falloff + falloff * Math.exp(-(dx * dx + dy * dy) / (2 * sigma * sigma));
+};
+
+// Visit every inner grid cell covered by a splat's disc, with the splat's weight there.
+// Shared by the solvers so a brush stamp covers the same cells on every backend.
+export const forEachSplatCell = (size: GridSize, splat: Splat, visit: (x: number, y: number, weight: number) => void) => {
+  const { x: mx, y: my } = splatCenter(size, splat);
+  const radius = splat.radius;
+  const r2 = radius * radius;
+
+  for (let y = -radius; y <= radius; y++) {
+    for (let x = -radius; x <= radius; x++) {
+      if (x * x + y * y > r2) continue;
+
+      const targetX = mx + x;
+      const targetY = my + y;
+      if (targetX < 1 || targetX > size.width || targetY < 1 || targetY > size.height) continue;
+
+      visit(targetX, targetY, splatWeight(splat, targetX, targetY));
+    }
+  }
+};
@@ -0,0 +1,20 @@
+// Type guards for data read back from files, storage and model replies, which arrives as `unknown`
+import { GridSize } from '../types';
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+
+export const isGrid = (value: unknown): value is GridSize =>
+  isRecord(value) && isNumber(value.width) && isNumber(value.height) && value.width > 0 && value.height > 0;
+
+// One of a fixed set of string options, e.g. an enum's values
+export const isOneOf = <T extends string>(value: unknown, options: readonly T[]): value is T =>
+  typeof value === 'string' && (options as readonly string[]).includes(value);
+
+export const isHexColor = (value: unknown): value is string => typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value);
+
+// A number brought into [min, max], or the fallback when it isn't a number at all
+export const clampNumber = (value: unknown, min: number, max: number, fallback: number) =>
+  isNumber(value) ? Math.min(Math.max(value, min), max) : fallback;
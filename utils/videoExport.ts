@@ -0,0 +1,112 @@
+import { DyeFrame, ExportOptions, RenderSettings } from '../types';
+import { STEPS_PER_SECOND } from '../constants';
+import { FluidWorkerClient } from './fluidWorkerClient';
+import { FrameRenderer } from './frameRenderer';
+import { GifEncoder } from './gifEncoder';
+
+// Best codec first; browsers pick their own when none of these is supported
+const WEBM_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas 2D is unavailable');
+  return { canvas, ctx };
+};
+
+// Record the live canvas in real time, scaled to the output size.
+// Stops after the duration, or early when the signal aborts; either way the captured video is returned.
+export const recordWebM = (source: HTMLCanvasElement, options: ExportOptions, signal?: AbortSignal): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    if (typeof MediaRecorder === 'undefined') {
+      reject(new Error('Video recording is not supported in this browser'));
+      return;
+    }
+    const { canvas, ctx } = createCanvas(options.width, options.height);
+    const stream = canvas.captureStream(options.fps);
+    const mimeType = WEBM_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    const chunks: Blob[] = [];
+
+    let frameId = 0;
+    const copy = () => {
+      ctx.drawImage(source, 0, 0, options.width, options.height);
+      frameId = requestAnimationFrame(copy);
+    };
+    const stop = () => {
+      if (recorder.state !== 'inactive') recorder.stop();
+    };
+    const timer = setTimeout(stop, options.duration * 1000);
+    const cleanup = () => {
+      cancelAnimationFrame(frameId);
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', stop);
+      stream.getTracks().forEach(track => track.stop());
+    };
+
+    recorder.ondataavailable = e => {
+      if (e.data.size > 0) chunks.push(e.data);
+    };
+    recorder.onstop = () => {
+      cleanup();
+      resolve(new Blob(chunks, { type: recorder.mimeType || 'video/webm' }));
+    };
+    recorder.onerror = () => {
+      cleanup();
+      reject(new Error('Video recording failed'));
+    };
+
+    signal?.addEventListener('abort', stop);
+    copy();
+    recorder.start(1000);
+  });
+
+// Render an animated GIF offline: the simulation is stepped exactly STEPS_PER_SECOND / fps times per frame,
+// however long each frame takes to encode. The caller must stop the live render loop meanwhile.
+// The frames are stepped on the live solver, so its state is saved first and put back afterwards:
+// exporting leaves the canvas where it was.
+export const renderGif = async (
+  client: FluidWorkerClient,
+  options: ExportOptions,
+  render: RenderSettings,
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<Blob> => {
+  const { canvas, ctx } = createCanvas(options.width, options.height);
+  const renderer = new FrameRenderer(render);
+  const encoder = new GifEncoder(options.width, options.height);
+  const frameCount = Math.max(1, Math.round(options.duration * options.fps));
+  const firstStep = Math.round(options.start * STEPS_PER_SECOND);
+
+  // Cumulative rounding keeps the timing exact over the whole clip when the rates don't divide evenly
+  const stepAt = (frame: number) => firstStep + Math.round((frame * STEPS_PER_SECOND) / options.fps);
+  const delayAt = (frame: number) => Math.round((frame * 100) / options.fps);
+
+  const saved = await client.save();
+  if (!saved) throw new Error('Could not read the simulation');
+  try {
+    let steps = 0;
+    for (let i = 0; i < frameCount; i++) {
+      signal?.throwIfAborted();
+      let frame: DyeFrame | null = null;
+      while (steps < stepAt(i)) {
+        frame = await client.renderFrame(true);
+        steps++;
+        signal?.throwIfAborted();
+      }
+      // Nothing to step for this frame (only the very first one at start 0): show the current state
+      if (!frame) frame = await client.renderFrame(false);
+
+      renderer.composite(frame);
+      renderer.draw(ctx, canvas.width, canvas.height);
+      encoder.addFrame(ctx.getImageData(0, 0, canvas.width, canvas.height).data, delayAt(i + 1) - delayAt(i));
+      onProgress?.((i + 1) / frameCount);
+    }
+  } finally {
+    client.restore(saved);
+  }
+
+  return encoder.finish();
+};
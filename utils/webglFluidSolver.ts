@@ -0,0 +1,848 @@
+// GPU port of the Stam solver in fluidSolver.ts, written as WebGL2 fragment shader passes.
+// Every field lives in an RGBA32F texture laid out exactly like the CPU arrays:
+// (W+2) x (H+2) texels, texel (i, j) holds cell IX(i, j), including the boundary ring.
+// Velocity textures hold (vx, vy, temperature); the dye texture holds RGB on its own grid.
+// Only texelFetch is used (no float filtering), so software renderers such as SwiftShader can run it.
+
+import { FluidBackend, SimulationConfig, Splat, DyeFrame, FlowFields, SolverState, GridSize, BoundaryConditions, EdgeKind } from '../types';
+import { forEachSplatCell, splatCenter, scaleSplat } from './splats';
+import { paddedLength, referenceSize, sameSize } from './grid';
+import { resolveBoundaries } from './boundaries';
+import { DEFAULT_CONFIG } from '../constants';
+
+type GL = WebGL2RenderingContext;
+
+interface RenderTarget {
+  texture: WebGLTexture;
+  fbo: WebGLFramebuffer;
+  size: GridSize; // Grid of the field, the texture is (width+2) x (height+2)
+}
+
+// Two targets that take turns being read from and written to
+interface DoubleTarget {
+  read: RenderTarget;
+  write: RenderTarget;
+  swap(): void;
+}
+
+// Boundary handling modes, mirroring the `b` argument of FluidSolver.set_bnd
+const BND_SCALAR = 0;
+const BND_VELOCITY = 1;
+const BND_PRESSURE = 3;
+
+// Edge conditions as shader constants
+const EDGE_CODES: Record<EdgeKind, number> = { wall: 0, noslip: 1, inflow: 2, outflow: 3, periodic: 4 };
+
+// Full-screen triangle generated from gl_VertexID, no vertex buffers needed
+const VERTEX_SHADER = `#version 300 es
+void main() {
+  vec2 p = vec2(float((gl_VertexID << 1) & 2), float(gl_VertexID & 2));
+  gl_Position = vec4(p * 2.0 - 1.0, 0.0, 1.0);
+}`;
+
+const SHADER_HEADER = `#version 300 es
+precision highp float;
+precision highp int;
+precision highp sampler2D;
+
+uniform ivec2 u_size; // Inner cells of the grid being written
+uniform float u_N; // Reference cell count (shorter side of the velocity grid), h = 1 / N
+uniform sampler2D u_mask; // Obstacles, on the velocity grid
+uniform vec2 u_maskScale; // Velocity cells per cell of the grid being written
+out vec4 outColor;
+
+bool isInner(ivec2 c) {
+  return c.x >= 1 && c.y >= 1 && c.x <= u_size.x && c.y <= u_size.y;
+}
+
+bool isSolid(ivec2 c) {
+  ivec2 m = ivec2(floor((vec2(c) - 0.5) * u_maskScale)) + 1;
+  return texelFetch(u_mask, m, 0).r > 0.5;
+}
+`;
+
+// set_bnd: apply each edge's condition, average the corners and fill solid cells from their fluid neighbours
+const BOUNDARY_SHADER = `${SHADER_HEADER}
+uniform sampler2D u_x;
+uniform int u_mode;
+uniform ivec4 u_edges; // Edge conditions: left, right, top (row 0), bottom
+uniform vec4 u_inflow; // Signed inflow velocity into the domain, per edge
+
+// Ghost value for an edge with the given condition; see edgeValue in fluidSolver.ts.
+// inner: adjacent interior cell, wrapped: interior cell on the far side.
+vec4 edgeValue(int kind, bool xNormal, vec4 inner, vec4 wrapped, float inflow) {
+  if (kind == ${EDGE_CODES.periodic}) return wrapped;
+  if (u_mode == ${BND_PRESSURE}) return kind == ${EDGE_CODES.outflow} ? vec4(0.0) : inner;
+  if (u_mode == ${BND_SCALAR}) return kind == ${EDGE_CODES.inflow} ? vec4(0.0) : inner;
+  // Velocity textures carry heat in z, which follows the scalar rules
+  vec2 v = inner.xy;
+  vec2 zw = kind == ${EDGE_CODES.inflow} ? vec2(0.0) : inner.zw;
+  if (kind == ${EDGE_CODES.inflow}) v = xNormal ? vec2(inflow, 0.0) : vec2(0.0, inflow);
+  else if (kind == ${EDGE_CODES.noslip}) v = -v;
+  else if (kind == ${EDGE_CODES.wall}) v = xNormal ? vec2(-v.x, v.y) : vec2(v.x, -v.y);
+  return vec4(v, zw);
+}
+
+vec4 xEdgeValue(ivec2 c, int row) {
+  bool left = c.x == 0;
+  vec4 inner = texelFetch(u_x, ivec2(left ? 1 : u_size.x, row), 0);
+  vec4 wrapped = texelFetch(u_x, ivec2(left ? u_size.x : 1, row), 0);
+  return left ? edgeValue(u_edges.x, true, inner, wrapped, u_inflow.x) : edgeValue(u_edges.y, true, inner, wrapped, -u_inflow.y);
+}
+
+vec4 yEdgeValue(ivec2 c, int column) {
+  bool top = c.y == 0;
+  vec4 inner = texelFetch(u_x, ivec2(column, top ? 1 : u_size.y), 0);
+  vec4 wrapped = texelFetch(u_x, ivec2(column, top ? u_size.y : 1), 0);
+  return top ? edgeValue(u_edges.z, false, inner, wrapped, u_inflow.z) : edgeValue(u_edges.w, false, inner, wrapped, -u_inflow.w);
+}
+
+void main() {
+  ivec2 c = ivec2(gl_FragCoord.xy);
+  bool xEdge = c.x == 0 || c.x == u_size.x + 1;
+  bool yEdge = c.y == 0 || c.y == u_size.y + 1;
+  bool velocity = u_mode == ${BND_VELOCITY};
+
+  if (xEdge && yEdge) {
+    // Corners average their two edge neighbours, both taken from the diagonal cell
+    int row = c.y == 0 ? 1 : u_size.y;
+    int column = c.x == 0 ? 1 : u_size.x;
+    outColor = 0.5 * (xEdgeValue(c, row) + yEdgeValue(c, column));
+    return;
+  }
+  if (xEdge) {
+    outColor = xEdgeValue(c, c.y);
+    return;
+  }
+  if (yEdge) {
+    outColor = yEdgeValue(c, c.x);
+    return;
+  }
+  if (isSolid(c)) {
+    vec4 sum = vec4(0.0);
+    float count = 0.0;
+    ivec2 n[4] = ivec2[4](c + ivec2(-1, 0), c + ivec2(1, 0), c + ivec2(0, -1), c + ivec2(0, 1));
+    for (int k = 0; k < 4; k++) {
+      if (!isSolid(n[k])) {
+        sum += texelFetch(u_x, n[k], 0);
+        count += 1.0;
+      }
+    }
+    vec4 avg = count > 0.0 ? sum / count : vec4(0.0);
+    outColor = velocity ? vec4(-avg.xy, avg.zw) : avg;
+    return;
+  }
+  outColor = texelFetch(u_x, c, 0);
+}`;
+
+// One relaxation sweep of lin_solve (Jacobi instead of in-place Gauss-Seidel)
+const JACOBI_SHADER = `${SHADER_HEADER}
+uniform sampler2D u_x;
+uniform sampler2D u_x0;
+uniform float u_a;
+uniform float u_c;
+
+void main() {
+  ivec2 c = ivec2(gl_FragCoord.xy);
+  if (!isInner(c) || isSolid(c)) {
+    outColor = texelFetch(u_x, c, 0);
+    return;
+  }
+  vec4 neighbours =
+    texelFetch(u_x, c + ivec2(1, 0), 0) +
+    texelFetch(u_x, c + ivec2(-1, 0), 0) +
+    texelFetch(u_x, c + ivec2(0, 1), 0) +
+    texelFetch(u_x, c + ivec2(0, -1), 0);
+  outColor = (texelFetch(u_x0, c, 0) + u_a * neighbours) / u_c;
+}`;
+
+const DIVERGENCE_SHADER = `${SHADER_HEADER}
+uniform sampler2D u_velocity;
+
+void main() {
+  ivec2 c = ivec2(gl_FragCoord.xy);
+  if (!isInner(c) || isSolid(c)) {
+    outColor = vec4(0.0);
+    return;
+  }
+  float div = -0.5 * (
+    texelFetch(u_velocity, c + ivec2(1, 0), 0).x -
+    texelFetch(u_velocity, c + ivec2(-1, 0), 0).x +
+    texelFetch(u_velocity, c + ivec2(0, 1), 0).y -
+    texelFetch(u_velocity, c + ivec2(0, -1), 0).y
+  ) / u_N;
+  outColor = vec4(div, 0.0, 0.0, 0.0);
+}`;
+
+const GRADIENT_SHADER = `${SHADER_HEADER}
+uniform sampler2D u_velocity;
+uniform sampler2D u_pressure;
+
+void main() {
+  ivec2 c = ivec2(gl_FragCoord.xy);
+  vec4 v = texelFetch(u_velocity, c, 0);
+  if (!isInner(c) || isSolid(c)) {
+    outColor = v;
+    return;
+  }
+  float N = u_N;
+  v.x -= 0.5 * N * (texelFetch(u_pressure, c + ivec2(1, 0), 0).x - texelFetch(u_pressure, c + ivec2(-1, 0), 0).x);
+  v.y -= 0.5 * N * (texelFetch(u_pressure, c + ivec2(0, 1), 0).x - texelFetch(u_pressure, c + ivec2(0, -1), 0).x);
+  outColor = v;
+}`;
+
+// Semi-Lagrangian backtrace with manual bilinear interpolation.
+// Velocity is sampled bilinearly too, so the source may live on a finer grid than the velocity.
+const ADVECT_SHADER = `${SHADER_HEADER}
+uniform sampler2D u_source;
+uniform sampler2D u_velocity;
+uniform vec2 u_dt0; // Time step in cells of the grid being written
+uniform vec2 u_velScale; // Velocity cells per cell of the grid being written
+uniform ivec2 u_periodic; // Axes that wrap around
+
+vec4 bilinear(sampler2D field, vec2 p) {
+  vec2 p0 = floor(p);
+  vec2 f = p - p0;
+  ivec2 i0 = ivec2(p0);
+  vec4 a = texelFetch(field, i0, 0);
+  vec4 b = texelFetch(field, i0 + ivec2(0, 1), 0);
+  vec4 d = texelFetch(field, i0 + ivec2(1, 0), 0);
+  vec4 e = texelFetch(field, i0 + ivec2(1, 1), 0);
+  return (1.0 - f.x) * ((1.0 - f.y) * a + f.y * b) + f.x * ((1.0 - f.y) * d + f.y * e);
+}
+
+void main() {
+  ivec2 c = ivec2(gl_FragCoord.xy);
+  if (!isInner(c) || isSolid(c)) {
+    outColor = texelFetch(u_source, c, 0);
+    return;
+  }
+  vec2 v = bilinear(u_velocity, (vec2(c) - 0.5) * u_velScale + 0.5).xy;
+  vec2 p = vec2(c) - u_dt0 * v;
+  // Periodic axes wrap around, the ghost cells hold the far side's values for the last stretch
+  if (u_periodic.x == 1) p.x = mod(p.x - 0.5, float(u_size.x)) + 0.5;
+  if (u_periodic.y == 1) p.y = mod(p.y - 0.5, float(u_size.y)) + 0.5;
+  p = clamp(p, vec2(0.5), vec2(u_size) + 0.5);
+  outColor = bilinear(u_source, p);
+}`;
+
+// Inside the disc: value * keep + add, blended in by the splat weight (see splatWeight in splats.ts).
+// Covers velocity, dye, erase and wall splats.
+const SPLAT_SHADER = `${SHADER_HEADER}
+uniform sampler2D u_target;
+uniform ivec2 u_center;
+uniform int u_radius;
+uniform vec2 u_point; // Exact centre
+uniform float u_falloff;
+uniform float u_sigma;
+uniform vec4 u_keep;
+uniform vec4 u_add;
+
+void main() {
+  ivec2 c = ivec2(gl_FragCoord.xy);
+  vec4 v = texelFetch(u_target, c, 0);
+  ivec2 d = c - u_center;
+  if (isInner(c) && d.x * d.x + d.y * d.y <= u_radius * u_radius) {
+    vec2 e = vec2(c) + 0.5 - u_point;
+    float w = 1.0 - u_falloff + u_falloff * exp(-dot(e, e) / (2.0 * u_sigma * u_sigma));
+    v = mix(v, v * u_keep + u_add, w);
+  }
+  outColor = v;
+}`;
+
+const CURL_SHADER = `${SHADER_HEADER}
+uniform sampler2D u_velocity;
+
+void main() {
+  ivec2 c = ivec2(gl_FragCoord.xy);
+  if (!isInner(c)) {
+    outColor = vec4(0.0);
+    return;
+  }
+  float w = 0.5 * (
+    texelFetch(u_velocity, c + ivec2(1, 0), 0).y - texelFetch(u_velocity, c + ivec2(-1, 0), 0).y -
+    (texelFetch(u_velocity, c + ivec2(0, 1), 0).x - texelFetch(u_velocity, c + ivec2(0, -1), 0).x)
+  );
+  outColor = vec4(w, 0.0, 0.0, 0.0);
+}`;
+
+const VORTICITY_SHADER = `${SHADER_HEADER}
+uniform sampler2D u_velocity;
+uniform sampler2D u_curl;
+uniform float u_strength;
+
+float curlAt(ivec2 c) {
+  return texelFetch(u_curl, c, 0).x;
+}
+
+void main() {
+  ivec2 c = ivec2(gl_FragCoord.xy);
+  vec4 v = texelFetch(u_velocity, c, 0);
+  if (c.x < 2 || c.y < 2 || c.x >= u_size.x || c.y >= u_size.y || isSolid(c)) {
+    outColor = v;
+    return;
+  }
+  float gx = 0.5 * (abs(curlAt(c + ivec2(1, 0))) - abs(curlAt(c + ivec2(-1, 0))));
+  float gy = 0.5 * (abs(curlAt(c + ivec2(0, 1))) - abs(curlAt(c + ivec2(0, -1))));
+  float len = sqrt(gx * gx + gy * gy) + 1e-5;
+  float w = curlAt(c);
+  v.x += u_strength * (gy / len) * w;
+  v.y -= u_strength * (gx / len) * w;
+  outColor = v;
+}`;
+
+// Temperature rides in the velocity texture's z channel
+const BUOYANCY_SHADER = `${SHADER_HEADER}
+uniform sampler2D u_velocity;
+uniform float u_strength;
+
+void main() {
+  ivec2 c = ivec2(gl_FragCoord.xy);
+  vec4 v = texelFetch(u_velocity, c, 0);
+  if (!isSolid(c)) {
+    v.y -= u_strength * v.z;
+  }
+  outColor = v;
+}`;
+
+const DISSIPATE_SHADER = `${SHADER_HEADER}
+uniform sampler2D u_source;
+uniform vec4 u_scale;
+
+void main() {
+  outColor = max(vec4(0.0), texelFetch(u_source, ivec2(gl_FragCoord.xy), 0) * u_scale);
+}`;
+
+class Program {
+  program: WebGLProgram;
+  private uniforms = new Map<string, WebGLUniformLocation | null>();
+
+  constructor(private gl: GL, vertex: WebGLShader, fragmentSource: string) {
+    const fragment = compileShader(gl, gl.FRAGMENT_SHADER, fragmentSource);
+    const program = gl.createProgram();
+    gl.attachShader(program, vertex);
+    gl.attachShader(program, fragment);
+    gl.linkProgram(program);
+    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+      throw new Error(`Shader link failed: ${gl.getProgramInfoLog(program)}`);
+    }
+    gl.deleteShader(fragment);
+    this.program = program;
+  }
+
+  uniform(name: string) {
+    if (!this.uniforms.has(name)) {
+      this.uniforms.set(name, this.gl.getUniformLocation(this.program, name));
+    }
+    return this.uniforms.get(name) ?? null;
+  }
+}
+
+const compileShader = (gl: GL, type: number, source: string) => {
+  const shader = gl.createShader(type);
+  if (!shader) throw new Error('Could not create shader');
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    throw new Error(`Shader compile failed: ${gl.getShaderInfoLog(shader)}`);
+  }
+  return shader;
+};
+
+const CONTEXT_OPTIONS: WebGLContextAttributes = {
+  alpha: false,
+  depth: false,
+  stencil: false,
+  antialias: false,
+  preserveDrawingBuffer: false,
+  // Software renderers report a performance caveat; we still want them
+  failIfMajorPerformanceCaveat: false
+};
+
+export class WebGLFluidSolver implements FluidBackend {
+  readonly kind = 'webgl2';
+  size: GridSize; // Velocity grid
+  dyeSize: GridSize; // Dye grid
+  dt: number;
+  diff: number;
+  visc: number;
+  vorticity = 0;
+  buoyancy = 0;
+  cooling = 0;
+  boundaries: BoundaryConditions = DEFAULT_CONFIG.boundaries; // Resolved, see resolveBoundaries
+
+  obstacles: Uint8Array; // CPU mirror of the mask texture, uploaded when dirty
+  private obstaclesDirty = false;
+
+  private gl: GL;
+  private readback: Float32Array; // Sized for the larger of the two grids
+
+  private velocity: DoubleTarget; // xy = velocity, z = temperature
+  private dye: DoubleTarget; // rgb = dye
+  private pressure: DoubleTarget;
+  private scratch: DoubleTarget; // Iterates velocity diffusion solves
+  private dyeScratch: DoubleTarget; // Iterates dye diffusion solves
+  private divergence: RenderTarget;
+  private curl: RenderTarget;
+  private mask: WebGLTexture;
+
+  private boundaryProgram: Program;
+  private jacobiProgram: Program;
+  private divergenceProgram: Program;
+  private gradientProgram: Program;
+  private advectProgram: Program;
+  private splatProgram: Program;
+  private curlProgram: Program;
+  private vorticityProgram: Program;
+  private buoyancyProgram: Program;
+  private dissipateProgram: Program;
+
+  // Checks whether this environment can run the GPU solver: WebGL2 on an OffscreenCanvas
+  // (so it also works inside the worker) and renderable float textures.
+  static isSupported(): boolean {
+    if (typeof OffscreenCanvas === 'undefined') return false;
+    try {
+      const gl = new OffscreenCanvas(1, 1).getContext('webgl2', CONTEXT_OPTIONS);
+      if (!gl) return false;
+      const supported = gl.getExtension('EXT_color_buffer_float') !== null;
+      gl.getExtension('WEBGL_lose_context')?.loseContext();
+      return supported;
+    } catch {
+      return false;
+    }
+  }
+
+  constructor(size: GridSize, diffusion: number, viscosity: number, dt: number, dyeSize: GridSize = size) {
+    this.size = size;
+    this.dyeSize = dyeSize;
+    this.dt = dt;
+    this.diff = diffusion;
+    this.visc = viscosity;
+
+    const canvas = new OffscreenCanvas(1, 1);
+    const gl = canvas.getContext('webgl2', CONTEXT_OPTIONS);
+    if (!gl) throw new Error('WebGL2 is not available');
+    if (!gl.getExtension('EXT_color_buffer_float')) throw new Error('Float render targets are not supported');
+    this.gl = gl;
+
+    this.obstacles = new Uint8Array(paddedLength(size));
+    this.readback = new Float32Array(Math.max(paddedLength(size), paddedLength(dyeSize)) * 4);
+
+    const vertex = compileShader(gl, gl.VERTEX_SHADER, VERTEX_SHADER);
+    this.boundaryProgram = new Program(gl, vertex, BOUNDARY_SHADER);
+    this.jacobiProgram = new Program(gl, vertex, JACOBI_SHADER);
+    this.divergenceProgram = new Program(gl, vertex, DIVERGENCE_SHADER);
+    this.gradientProgram = new Program(gl, vertex, GRADIENT_SHADER);
+    this.advectProgram = new Program(gl, vertex, ADVECT_SHADER);
+    this.splatProgram = new Program(gl, vertex, SPLAT_SHADER);
+    this.curlProgram = new Program(gl, vertex, CURL_SHADER);
+    this.vorticityProgram = new Program(gl, vertex, VORTICITY_SHADER);
+    this.buoyancyProgram = new Program(gl, vertex, BUOYANCY_SHADER);
+    this.dissipateProgram = new Program(gl, vertex, DISSIPATE_SHADER);
+    gl.deleteShader(vertex);
+
+    this.velocity = this.createDoubleTarget(size);
+    this.pressure = this.createDoubleTarget(size);
+    this.scratch = this.createDoubleTarget(size);
+    this.divergence = this.createTarget(size);
+    this.curl = this.createTarget(size);
+    this.dye = this.createDoubleTarget(dyeSize);
+    this.dyeScratch = this.createDoubleTarget(dyeSize);
+
+    this.mask = this.createTexture(size, gl.R8, gl.RED, gl.UNSIGNED_BYTE, this.obstacles);
+
+    gl.disable(gl.BLEND);
+    this.clear();
+  }
+
+  configure(config: SimulationConfig) {
+    this.diff = config.diffusion;
+    this.visc = config.viscosity;
+    this.vorticity = config.vorticity;
+    this.buoyancy = config.buoyancy;
+    this.cooling = config.coolingRate;
+    this.boundaries = resolveBoundaries(config.boundaries);
+  }
+
+  // Splats are given in velocity grid coordinates and rescaled for the dye grid
+  splat(splat: Splat) {
+    const dyeSplat = scaleSplat(splat, this.size, this.dyeSize);
+
+    switch (splat.kind) {
+      case 'velocity':
+        this.runSplat(this.velocity, this.size, splat, [1, 1, 1, 1], [splat.dx, splat.dy, 0, 0]);
+        break;
+      case 'density': {
+        const { amount, color, heat } = splat;
+        this.runSplat(this.dye, this.dyeSize, dyeSplat, [1, 1, 1, 1], [
+          amount * (color.r / 255),
+          amount * (color.g / 255),
+          amount * (color.b / 255),
+          0
+        ]);
+        // Heat is only cooled while buoyancy is on; adding it otherwise would pile up unseen
+        if (this.buoyancy > 0) this.runSplat(this.velocity, this.size, splat, [1, 1, 1, 1], [0, 0, heat, 0]);
+        break;
+      }
+      case 'erase':
+        this.runSplat(this.dye, this.dyeSize, dyeSplat, [0, 0, 0, 0], [0, 0, 0, 0]);
+        break;
+      case 'drain': {
+        const { keep } = splat;
+        this.runSplat(this.dye, this.dyeSize, dyeSplat, [keep, keep, keep, 1], [0, 0, 0, 0]);
+        break;
+      }
+      case 'obstacle':
+        forEachSplatCell(this.size, splat, (x, y) => {
+          this.obstacles[x + (this.size.width + 2) * y] = splat.solid ? 1 : 0;
+        });
+        this.obstaclesDirty = true;
+        if (splat.solid) {
+          // Nothing lives inside a wall
+          this.runSplat(this.velocity, this.size, splat, [0, 0, 0, 0], [0, 0, 0, 0]);
+          this.runSplat(this.dye, this.dyeSize, dyeSplat, [0, 0, 0, 0], [0, 0, 0, 0]);
+        }
+        break;
+    }
+  }
+
+  step(iter: number, fadeRate: number) {
+    const dt = this.dt;
+    this.syncMask();
+
+    if (this.vorticity > 0) this.applyVorticityConfinement(this.vorticity, dt);
+    if (this.buoyancy > 0) this.applyBuoyancy(this.buoyancy, dt);
+
+    this.diffuse(this.velocity, this.scratch, BND_VELOCITY, this.visc, dt, iter);
+    this.project(iter);
+    this.advect(this.velocity, BND_VELOCITY, dt);
+    this.project(iter);
+
+    this.diffuse(this.dye, this.dyeScratch, BND_SCALAR, this.diff, dt, iter);
+    this.advect(this.dye, BND_SCALAR, dt);
+
+    // Natural dissipation (fade out)
+    if (fadeRate > 0) {
+      const keep = 1 - fadeRate;
+      this.dissipate(this.dye, [keep, keep, keep, 1]);
+    }
+    if (this.buoyancy > 0 && this.cooling > 0) {
+      this.dissipate(this.velocity, [1, 1, 1 - this.cooling, 1]);
+    }
+  }
+
+  readDye(target: DyeFrame) {
+    const pixels = this.readTarget(this.dye.read);
+    const length = paddedLength(this.dyeSize);
+    for (let i = 0; i < length; i++) {
+      target.densityR[i] = pixels[i * 4];
+      target.densityG[i] = pixels[i * 4 + 1];
+      target.densityB[i] = pixels[i * 4 + 2];
+    }
+    target.obstacles.set(this.obstacles);
+  }
+
+  readFlow(target: FlowFields) {
+    const length = paddedLength(this.size);
+    let pixels = this.readTarget(this.velocity.read);
+    for (let i = 0; i < length; i++) {
+      target.Vx[i] = pixels[i * 4];
+      target.Vy[i] = pixels[i * 4 + 1];
+    }
+    pixels = this.readTarget(this.pressure.read);
+    for (let i = 0; i < length; i++) target.pressure[i] = pixels[i * 4];
+    pixels = this.readTarget(this.divergence);
+    for (let i = 0; i < length; i++) target.divergence[i] = pixels[i * 4];
+  }
+
+  readState(): SolverState {
+    const length = paddedLength(this.size);
+    const dyeLength = paddedLength(this.dyeSize);
+    const state: SolverState = {
+      size: this.size,
+      dyeSize: this.dyeSize,
+      densityR: new Float32Array(dyeLength),
+      densityG: new Float32Array(dyeLength),
+      densityB: new Float32Array(dyeLength),
+      Vx: new Float32Array(length),
+      Vy: new Float32Array(length),
+      temperature: new Float32Array(length),
+      obstacles: this.obstacles.slice()
+    };
+
+    let pixels = this.readTarget(this.dye.read);
+    for (let i = 0; i < dyeLength; i++) {
+      state.densityR[i] = pixels[i * 4];
+      state.densityG[i] = pixels[i * 4 + 1];
+      state.densityB[i] = pixels[i * 4 + 2];
+    }
+    pixels = this.readTarget(this.velocity.read);
+    for (let i = 0; i < length; i++) {
+      state.Vx[i] = pixels[i * 4];
+      state.Vy[i] = pixels[i * 4 + 1];
+      state.temperature[i] = pixels[i * 4 + 2];
+    }
+    return state;
+  }
+
+  writeState(state: SolverState) {
+    if (!sameSize(state.size, this.size) || !sameSize(state.dyeSize, this.dyeSize)) {
+      throw new Error('State grids do not match the solver grids');
+    }
+    const length = paddedLength(this.size);
+    const dyeLength = paddedLength(this.dyeSize);
+    const pixels = this.readback;
+
+    for (let i = 0; i < dyeLength; i++) {
+      pixels[i * 4] = state.densityR[i];
+      pixels[i * 4 + 1] = state.densityG[i];
+      pixels[i * 4 + 2] = state.densityB[i];
+      pixels[i * 4 + 3] = 0;
+    }
+    this.writeTarget(this.dye.read, pixels);
+
+    for (let i = 0; i < length; i++) {
+      pixels[i * 4] = state.Vx[i];
+      pixels[i * 4 + 1] = state.Vy[i];
+      pixels[i * 4 + 2] = state.temperature[i];
+      pixels[i * 4 + 3] = 0;
+    }
+    this.writeTarget(this.velocity.read, pixels);
+
+    this.obstacles.set(state.obstacles);
+    this.obstaclesDirty = true;
+  }
+
+  clear() {
+    const gl = this.gl;
+    gl.clearColor(0, 0, 0, 0);
+    for (const double of [this.velocity, this.dye, this.pressure, this.scratch, this.dyeScratch]) {
+      for (const target of [double.read, double.write]) {
+        gl.bindFramebuffer(gl.FRAMEBUFFER, target.fbo);
+        gl.clear(gl.COLOR_BUFFER_BIT);
+      }
+    }
+  }
+
+  clearObstacles() {
+    this.obstacles.fill(0);
+    this.obstaclesDirty = true;
+  }
+
+  dispose() {
+    this.gl.getExtension('WEBGL_lose_context')?.loseContext();
+  }
+
+  // --- Pipeline stages, mirroring FluidSolver ---
+
+  private diffuse(field: DoubleTarget, scratch: DoubleTarget, mode: number, diff: number, dt: number, iter: number) {
+    const N = referenceSize(field.read.size);
+    const a = dt * diff * (N - 2) * (N - 2);
+    // With no diffusion the solve reproduces its input, skip the passes
+    if (a === 0) return;
+
+    // Start from the current field as the initial guess
+    this.setBoundary(field.read, scratch.write, mode);
+    scratch.swap();
+    this.linSolve(scratch, field.read, mode, a, 1 + 6 * a, iter);
+    this.setBoundary(scratch.read, field.write, mode);
+    field.swap();
+  }
+
+  private linSolve(x: DoubleTarget, x0: RenderTarget, mode: number, a: number, c: number, iter: number) {
+    for (let k = 0; k < iter; k++) {
+      this.run(this.jacobiProgram, x.write, p => {
+        this.bindTexture(p, 'u_x', x.read.texture, 1);
+        this.bindTexture(p, 'u_x0', x0.texture, 2);
+        this.gl.uniform1f(p.uniform('u_a'), a);
+        this.gl.uniform1f(p.uniform('u_c'), c);
+      });
+      x.swap();
+      this.setBoundary(x.read, x.write, mode);
+      x.swap();
+    }
+  }
+
+  private project(iter: number) {
+    const gl = this.gl;
+
+    this.run(this.divergenceProgram, this.divergence, p => {
+      this.bindTexture(p, 'u_velocity', this.velocity.read.texture, 1);
+    });
+
+    gl.clearColor(0, 0, 0, 0);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, this.pressure.read.fbo);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+    this.linSolve(this.pressure, this.divergence, BND_PRESSURE, 1, 6, iter); // Simplified relaxation
+
+    this.run(this.gradientProgram, this.velocity.write, p => {
+      this.bindTexture(p, 'u_velocity', this.velocity.read.texture, 1);
+      this.bindTexture(p, 'u_pressure', this.pressure.read.texture, 2);
+    });
+    this.velocity.swap();
+    this.setBoundary(this.velocity.read, this.velocity.write, BND_VELOCITY);
+    this.velocity.swap();
+  }
+
+  private advect(field: DoubleTarget, mode: number, dt: number) {
+    const size = field.read.size;
+    const velScaleX = this.size.width / size.width;
+    const velScaleY = this.size.height / size.height;
+    // Time step in cells of the advected field's grid
+    const dt0 = dt * (referenceSize(this.size) - 2);
+    this.run(this.advectProgram, field.write, p => {
+      this.bindTexture(p, 'u_source', field.read.texture, 1);
+      this.bindTexture(p, 'u_velocity', this.velocity.read.texture, 2);
+      this.gl.uniform2f(p.uniform('u_dt0'), dt0 / velScaleX, dt0 / velScaleY);
+      this.gl.uniform2f(p.uniform('u_velScale'), velScaleX, velScaleY);
+      this.gl.uniform2i(p.uniform('u_periodic'), this.boundaries.left.kind === 'periodic' ? 1 : 0, this.boundaries.top.kind === 'periodic' ? 1 : 0);
+    });
+    field.swap();
+    this.setBoundary(field.read, field.write, mode);
+    field.swap();
+  }
+
+  private applyVorticityConfinement(strength: number, dt: number) {
+    this.run(this.curlProgram, this.curl, p => {
+      this.bindTexture(p, 'u_velocity', this.velocity.read.texture, 1);
+    });
+    this.run(this.vorticityProgram, this.velocity.write, p => {
+      this.bindTexture(p, 'u_velocity', this.velocity.read.texture, 1);
+      this.bindTexture(p, 'u_curl', this.curl.texture, 2);
+      this.gl.uniform1f(p.uniform('u_strength'), dt * strength);
+    });
+    this.velocity.swap();
+  }
+
+  private applyBuoyancy(strength: number, dt: number) {
+    this.run(this.buoyancyProgram, this.velocity.write, p => {
+      this.bindTexture(p, 'u_velocity', this.velocity.read.texture, 1);
+      this.gl.uniform1f(p.uniform('u_strength'), dt * strength);
+    });
+    this.velocity.swap();
+  }
+
+  private dissipate(field: DoubleTarget, scale: number[]) {
+    this.run(this.dissipateProgram, field.write, p => {
+      this.bindTexture(p, 'u_source', field.read.texture, 1);
+      this.gl.uniform4fv(p.uniform('u_scale'), scale);
+    });
+    field.swap();
+  }
+
+  private setBoundary(source: RenderTarget, target: RenderTarget, mode: number) {
+    this.run(this.boundaryProgram, target, p => {
+      this.bindTexture(p, 'u_x', source.texture, 1);
+      const { left, right, top, bottom } = this.boundaries;
+      this.gl.uniform1i(p.uniform('u_mode'), mode);
+      this.gl.uniform4i(p.uniform('u_edges'), EDGE_CODES[left.kind], EDGE_CODES[right.kind], EDGE_CODES[top.kind], EDGE_CODES[bottom.kind]);
+      this.gl.uniform4f(p.uniform('u_inflow'), left.speed, right.speed, top.speed, bottom.speed);
+    });
+  }
+
+  // Stamp a splat given in the coordinates of `size`, the field's grid
+  private runSplat(field: DoubleTarget, size: GridSize, splat: Splat, keep: number[], add: number[]) {
+    const center = splatCenter(size, splat);
+    const falloff = 'falloff' in splat ? splat.falloff ?? 0 : 0;
+    this.syncMask();
+    this.run(this.splatProgram, field.write, p => {
+      this.bindTexture(p, 'u_target', field.read.texture, 1);
+      this.gl.uniform2i(p.uniform('u_center'), center.x, center.y);
+      this.gl.uniform1i(p.uniform('u_radius'), splat.radius);
+      this.gl.uniform2f(p.uniform('u_point'), splat.x, splat.y);
+      this.gl.uniform1f(p.uniform('u_falloff'), falloff);
+      this.gl.uniform1f(p.uniform('u_sigma'), Math.max(splat.radius, 1) / 2);
+      this.gl.uniform4fv(p.uniform('u_keep'), keep);
+      this.gl.uniform4fv(p.uniform('u_add'), add);
+    });
+    field.swap();
+  }
+
+  // --- GL plumbing ---
+
+  // Draw one full-grid pass into `target`. The mask is always bound to unit 0.
+  private run(program: Program, target: RenderTarget, setup: (p: Program) => void) {
+    const gl = this.gl;
+    gl.useProgram(program.program);
+    const { width, height } = target.size;
+    gl.uniform2i(program.uniform('u_size'), width, height);
+    gl.uniform1f(program.uniform('u_N'), referenceSize(this.size));
+    gl.uniform2f(program.uniform('u_maskScale'), this.size.width / width, this.size.height / height);
+    this.bindTexture(program, 'u_mask', this.mask, 0);
+    setup(program);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, target.fbo);
+    gl.viewport(0, 0, width + 2, height + 2);
+    gl.drawArrays(gl.TRIANGLES, 0, 3);
+  }
+
+  private bindTexture(program: Program, name: string, texture: WebGLTexture, unit: number) {
+    const gl = this.gl;
+    gl.activeTexture(gl.TEXTURE0 + unit);
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.uniform1i(program.uniform(name), unit);
+  }
+
+  // Read a target back into the shared readback buffer (RGBA interleaved)
+  private readTarget(target: RenderTarget) {
+    const gl = this.gl;
+    const { width, height } = target.size;
+    gl.bindFramebuffer(gl.FRAMEBUFFER, target.fbo);
+    gl.readPixels(0, 0, width + 2, height + 2, gl.RGBA, gl.FLOAT, this.readback);
+    return this.readback;
+  }
+
+  private writeTarget(target: RenderTarget, pixels: Float32Array) {
+    const gl = this.gl;
+    const { width, height } = target.size;
+    gl.bindTexture(gl.TEXTURE_2D, target.texture);
+    gl.texSubImage2D(gl.TEXTURE_2D, 0, 0, 0, width + 2, height + 2, gl.RGBA, gl.FLOAT, pixels);
+  }
+
+  private syncMask() {
+    if (!this.obstaclesDirty) return;
+    const gl = this.gl;
+    const { width, height } = this.size;
+    gl.bindTexture(gl.TEXTURE_2D, this.mask);
+    gl.pixelStorei(gl.UNPACK_ALIGNMENT, 1);
+    gl.texSubImage2D(gl.TEXTURE_2D, 0, 0, 0, width + 2, height + 2, gl.RED, gl.UNSIGNED_BYTE, this.obstacles);
+    this.obstaclesDirty = false;
+  }
+
+  private createTexture(size: GridSize, internalFormat: number, format: number, type: number, data: ArrayBufferView | null) {
+    const gl = this.gl;
+    const texture = gl.createTexture();
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    gl.pixelStorei(gl.UNPACK_ALIGNMENT, 1);
+    gl.texImage2D(gl.TEXTURE_2D, 0, internalFormat, size.width + 2, size.height + 2, 0, format, type, data);
+    return texture;
+  }
+
+  private createTarget(size: GridSize): RenderTarget {
+    const gl = this.gl;
+    const texture = this.createTexture(size, gl.RGBA32F, gl.RGBA, gl.FLOAT, null);
+    const fbo = gl.createFramebuffer();
+    gl.bindFramebuffer(gl.FRAMEBUFFER, fbo);
+    gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, texture, 0);
+    if (gl.checkFramebufferStatus(gl.FRAMEBUFFER) !== gl.FRAMEBUFFER_COMPLETE) {
+      throw new Error('Float framebuffer is incomplete');
+    }
+    return { texture, fbo, size };
+  }
+
+  private createDoubleTarget(size: GridSize): DoubleTarget {
+    const double: DoubleTarget = {
+      read: this.createTarget(size),
+      write: this.createTarget(size),
+      swap() {
+        const t = double.read;
+        double.read = double.write;
+        double.write = t;
+      }
+    };
+    return double;
+  }
+}